@@ -0,0 +1,233 @@
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+import { Resource } from "@adminjs/typeorm";
+import { type ActionContext, type BaseRecord, type CurrentAdmin, type Filter, type FilterElement, ForbiddenError, type ResourceOptions } from "adminjs";
+import { type BaseEntity, type FindOptionsWhere, In } from "typeorm";
+import { AdminUser } from "../database.js";
+
+export type AdminRole = 'owner' | 'editor' | 'viewer';
+
+export const adminRoles: { value: AdminRole, label: string }[] = [
+    { value: 'owner', label: 'Owner: every server, manages the accounts' },
+    { value: 'editor', label: 'Editor: edits the servers of the account' },
+    { value: 'viewer', label: 'Viewer: only reads the servers of the account' },
+];
+
+export interface AdminAccount extends CurrentAdmin {
+    role: AdminRole;
+    // IDs of the Server records the account has access to, owners have access to every server
+    serverIds: string[];
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, length: number) => Promise<Buffer>;
+
+const keyLength = 64;
+
+/**
+ * Hashes the password with a random salt, the result contains everything needed to verify it.
+ */
+export const hashPassword = async (password: string) => {
+    const salt = randomBytes(16).toString('hex');
+    const hash = await scryptAsync(password, salt, keyLength);
+    return `scrypt:${salt}:${hash.toString('hex')}`;
+}
+
+export const verifyPassword = async (password: string, passwordHash: string) => {
+    const [algorithm, salt, hash] = passwordHash.split(':');
+    if (algorithm !== 'scrypt' || !salt || !hash) return false;
+    const expected = Buffer.from(hash, 'hex');
+    const actual = await scryptAsync(password, salt, expected.length);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export const toAdminAccount = (user: AdminUser): AdminAccount => ({
+    id: user.id.toString(),
+    email: user.email,
+    title: adminRoles.find(role => role.value === user.role)?.label.split(':')[0],
+    role: user.role,
+    serverIds: user.serverIds
+});
+
+const getSessionAccount = (context?: Pick<ActionContext, 'currentAdmin'>) => context?.currentAdmin as AdminAccount | undefined;
+
+// accounts read during a request, by context, so the resources of a page do not read the account again
+const requestAccounts = new WeakMap<ActionContext, Promise<AdminAccount | null>>();
+
+/**
+ * Reads the logged in account from the database: the session is only written at login,
+ * so a removed account, a changed role or removed servers apply right away. Returns null if the account was removed.
+ */
+export const getAccount = (context: ActionContext) => {
+    let account = requestAccounts.get(context);
+    if (!account) {
+        const id = Number(getSessionAccount(context)?.id);
+        account = Number.isInteger(id)
+            ? AdminUser.findOneBy({ id }).then(user => user && toAdminAccount(user))
+            : Promise.resolve(null);
+        requestAccounts.set(context, account);
+    }
+    return account;
+}
+
+/**
+ * Throws if the account was removed or its role does not allow the action anymore.
+ */
+export const checkAccess = async (context: ActionContext, ownerOnly = false) => {
+    const account = await getAccount(context);
+    if (!account) throw new ForbiddenError('Your account does not exist anymore.');
+    if (ownerOnly ? account.role !== 'owner' : account.role === 'viewer') throw new ForbiddenError('Your account is not allowed to do this.');
+    return account;
+}
+
+// the checks of the actions only hide them, with the role of the login: the resources and the handlers check the account again
+export const isOwner = (context: ActionContext) => getSessionAccount(context)?.role === 'owner';
+
+export const canEdit = (context: ActionContext) => ['owner', 'editor'].includes(getSessionAccount(context)?.role ?? '');
+
+/**
+ * Adds the role checks to the actions of a resource: viewers can only read, and owner only resources are hidden from the others.
+ * Actions that already have their own check keep it.
+ */
+export const withRoleAccess = (options: ResourceOptions, ownerOnly = false): ResourceOptions => {
+    const actions: Record<string, object | undefined> = { ...options.actions };
+    const readActions = ['list', 'show', 'search'] as const;
+    const writeActions = ['new', 'edit', 'delete', 'bulkDelete'] as const;
+    for (const name of ownerOnly ? [...readActions, ...writeActions] : writeActions) {
+        actions[name] = { isAccessible: ownerOnly ? isOwner : canEdit, ...actions[name] };
+    }
+    return { ...options, actions: actions as ResourceOptions['actions'] };
+}
+
+// how the records of a resource belong to a server
+type ServerLink =
+    | { kind: 'server' }
+    | { kind: 'column' }
+    | { kind: 'relation', relation: string, joinKey: string, target: typeof BaseEntity }
+    | { kind: 'none' };
+
+/**
+ * Resource only returning and changing the records of the servers of the logged in account.
+ * Records of resources that do not belong to a server (e.g. the accounts) are only available to the owners.
+ * Calls without context come from the bot itself and are not restricted.
+ */
+export class ScopedResource extends Resource {
+    private entity: typeof BaseEntity;
+    private serverLink: ServerLink | null = null;
+
+    constructor(entity: typeof BaseEntity) {
+        super(entity);
+        this.entity = entity;
+    }
+
+    private getServerLink(): ServerLink {
+        if (this.serverLink) return this.serverLink;
+
+        const metadata = this.entity.getRepository().metadata;
+        const relation = metadata.manyToOneRelations.find(relation => relation.inverseEntityMetadata.findColumnWithPropertyName('serverId'));
+        if (metadata.name === 'Server') this.serverLink = { kind: 'server' };
+        else if (metadata.findColumnWithPropertyName('serverId')) this.serverLink = { kind: 'column' };
+        else if (relation?.joinColumns[0]) {
+            this.serverLink = {
+                kind: 'relation',
+                relation: relation.propertyName,
+                joinKey: relation.joinColumns[0].propertyName,
+                target: relation.inverseEntityMetadata.target as typeof BaseEntity
+            };
+        } else this.serverLink = { kind: 'none' };
+        return this.serverLink;
+    }
+
+    /**
+     * Returns the IDs of the servers the account has access to, or null if it has access to every server.
+     */
+    private async getAllowedServerIds(context?: ActionContext) {
+        if (!context) return null;
+        const account = await getAccount(context);
+        if (account?.role === 'owner') return null;
+        return account?.serverIds ?? [];
+    }
+
+    private async isAllowed(params: Record<string, unknown>, context?: ActionContext) {
+        const serverIds = await this.getAllowedServerIds(context);
+        if (!serverIds) return true;
+
+        const link = this.getServerLink();
+        switch (link.kind) {
+            case 'server':
+                return serverIds.includes(String(params.id));
+            case 'column':
+                return serverIds.includes(String(params.serverId));
+            case 'relation': {
+                const parent = await link.target.getRepository().findOneBy({ id: Number(params[link.joinKey]) } as FindOptionsWhere<BaseEntity>) as { serverId?: string } | null;
+                return !!parent && serverIds.includes(String(parent.serverId));
+            }
+            case 'none':
+                return false;
+        }
+    }
+
+    /**
+     * Adds the servers of the account to the filter. Returns false if the account can not see any record.
+     */
+    private async scopeFilter(filter: Filter, context?: ActionContext) {
+        const serverIds = await this.getAllowedServerIds(context);
+        if (!serverIds) return true;
+
+        const link = this.getServerLink();
+        if (link.kind === 'none' || !serverIds.length) return false;
+
+        const key = link.kind === 'server' ? 'id' : link.kind === 'column' ? 'serverId' : link.relation;
+        // a server picked in the filters of the list is kept if the account has access to it
+        const requested = link.kind === 'relation' ? undefined : filter.filters[key]?.value;
+        const allowed = typeof requested === 'string' ? serverIds.filter(id => id === requested) : serverIds;
+        if (!allowed.length) return false;
+
+        const custom = link.kind === 'server' ? In(allowed.map(Number)) : link.kind === 'column' ? In(allowed) : { serverId: In(allowed) };
+        // the custom value is passed as is to TypeORM by the adapter
+        filter.filters[key] = { path: key, property: this.property(key), value: '', custom } as FilterElement;
+        return true;
+    }
+
+    async count(filter: Filter, context?: ActionContext) {
+        if (!await this.scopeFilter(filter, context)) return 0;
+        return super.count(filter);
+    }
+
+    async find(filter: Filter, params: object, context?: ActionContext) {
+        if (!await this.scopeFilter(filter, context)) return [];
+        return super.find(filter, params);
+    }
+
+    async findOne(id: string | number, context?: ActionContext) {
+        const record = await super.findOne(id);
+        return record && await this.isAllowed(record.params, context) ? record : null;
+    }
+
+    async findMany(ids: (string | number)[], context?: ActionContext) {
+        const records = await super.findMany(ids);
+        const allowed = await Promise.all(records.map(record => this.isAllowed(record.params, context)));
+        return records.filter((_, i) => allowed[i]);
+    }
+
+    private async checkWrite(params: Record<string, unknown>, context?: ActionContext, record?: BaseRecord | null, ownerOnly = false) {
+        if (context) await checkAccess(context, ownerOnly);
+        if (record === null || (record && !await this.isAllowed(record.params, context))) throw new ForbiddenError('This record does not exist or belongs to a server of another account.');
+        if (!await this.isAllowed({ ...record?.params, ...params }, context)) throw new ForbiddenError('Your account does not have access to this server.');
+    }
+
+    async create(params: Record<string, unknown>, context?: ActionContext) {
+        // only the owners add servers
+        await this.checkWrite(params, context, undefined, this.getServerLink().kind === 'server');
+        return super.create(params);
+    }
+
+    async update(pk: string | number, params: Record<string, unknown> = {}, context?: ActionContext) {
+        await this.checkWrite(params, context, await super.findOne(pk));
+        return super.update(pk, params);
+    }
+
+    async delete(pk: string | number, context?: ActionContext) {
+        await this.checkWrite({}, context, await super.findOne(pk), this.getServerLink().kind === 'server');
+        return super.delete(pk);
+    }
+}
@@ -0,0 +1,175 @@
+import { watchFile } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import type { Client, Guild } from "discord.js";
+import { parse as parseYaml } from "yaml";
+import { findServer } from "../database.js";
+import { resolveEmojiInput } from "../restrictions/emojis.js";
+import { resolveChannelInput, resolveRoleInput } from "../util.js";
+import {
+    applyConfigImport,
+    type ConfigItem,
+    type ConfigSectionName,
+    configSectionNames,
+    configVersion,
+    describeConfigImportPlan,
+    getServerConfigError,
+    hasConfigChanges,
+    planConfigImport,
+    type ServerConfig
+} from "./transfer.js";
+
+/**
+ * merge: the rules of the file are added to the ones of the dashboard.
+ * source-of-truth: the rules that are not in the file are removed.
+ */
+export type ConfigFileMode = 'merge' | 'source-of-truth';
+
+export const configFileModes: ConfigFileMode[] = ['merge', 'source-of-truth'];
+
+/**
+ * A server of the config file. The sections have the format of /config export, the channels, the roles and
+ * the emojis can also be written with their name. For example, in YAML:
+ *
+ * mode: source-of-truth
+ * servers:
+ *   - guildId: "123456789012345678"
+ *     settings:
+ *       logChannelId: "#mod-logs"
+ *     keywords:
+ *       - { channelId: "#trading", kind: startswith, text: "[WTS]", caseInsensitive: true }
+ *     staffRoles: ["Moderators"]
+ *
+ * Only the sections written in the file are reconciled: to remove every rule of a section, write an empty list.
+ */
+interface ConfigFileServer extends Partial<Record<ConfigSectionName, unknown>> {
+    guildId: string;
+    settings?: ConfigItem;
+}
+
+interface ConfigFile {
+    mode?: ConfigFileMode;
+    servers: ConfigFileServer[];
+}
+
+const isObject = (value: unknown): value is ConfigItem => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Returns why the data is not a valid config file, or null if it is valid.
+ */
+export const getConfigFileError = (data: unknown) => {
+    if (!isObject(data)) return 'the file has to describe an object with the list of servers';
+    if (data.mode !== undefined && !configFileModes.includes(data.mode as ConfigFileMode)) return `the mode has to be one of ${configFileModes.join(', ')}`;
+    if (!Array.isArray(data.servers) || !data.servers.every(isObject)) return 'servers has to be a list of servers';
+    for (const server of data.servers) {
+        // big numbers lose their last digits when they are not quoted
+        if (typeof server.guildId !== 'string') return 'the guildId of every server has to be a quoted string';
+        if (server.settings !== undefined && !isObject(server.settings)) return `the settings of the server ${server.guildId} have to be an object`;
+    }
+    return null;
+}
+
+const resolveChannelId = (value: unknown, guild: Guild) => {
+    return typeof value === 'string' ? resolveChannelInput(value, guild)?.id ?? value : value;
+}
+
+const resolveRoleId = (value: unknown, guild: Guild) => {
+    return typeof value === 'string' ? resolveRoleInput(value, guild)?.id ?? value : value;
+}
+
+/**
+ * Replaces the names written in the items by IDs. Names that can not be found are kept, the import reports them.
+ */
+const resolveItems = (name: ConfigSectionName, items: unknown, guild: Guild) => {
+    if (!Array.isArray(items)) return items;
+    return items.map((value: unknown) => {
+        const item = name === 'staffRoles' && typeof value === 'string' ? { roleId: value } : value;
+        if (!isObject(item)) return item;
+
+        const resolved = { ...item };
+        if ('channelId' in item) resolved.channelId = resolveChannelId(item.channelId, guild);
+        if (name === 'staffRoles') resolved.roleId = resolveRoleId(item.roleId, guild);
+        if (name === 'exemptions' && item.kind === 'role') resolved.targetId = resolveRoleId(item.targetId, guild);
+        if (typeof item.emojiUnicodeOrId === 'string') resolved.emojiUnicodeOrId = resolveEmojiInput(item.emojiUnicodeOrId, guild) ?? item.emojiUnicodeOrId;
+        return resolved;
+    });
+}
+
+const toServerConfig = (entry: ConfigFileServer, guild: Guild) => {
+    const settings = { ...entry.settings };
+    if ('logChannelId' in settings) settings.logChannelId = resolveChannelId(settings.logChannelId, guild);
+
+    return {
+        version: configVersion,
+        exportedAt: new Date().toISOString(),
+        source: { guildId: guild.id, name: 'the config file' },
+        names: { channels: {}, roles: {}, emojis: {} },
+        settings,
+        ...Object.fromEntries(configSectionNames.map(name => [name, resolveItems(name, entry[name] ?? [], guild)]))
+    } as ServerConfig;
+}
+
+const reconcileServer = async (client: Client, entry: ConfigFileServer, mode: ConfigFileMode) => {
+    const server = await findServer(entry.guildId);
+    const guild = client.guilds.cache.get(entry.guildId);
+    if (!server || !guild) {
+        console.error(`Config file: the bot is not in the server ${entry.guildId}, it is skipped`);
+        return;
+    }
+
+    const config = toServerConfig(entry, guild);
+    const error = getServerConfigError(config);
+    if (error) {
+        console.error(`Config file: the server ${guild.name} is skipped, ${error}`);
+        return;
+    }
+
+    const plan = await planConfigImport(server, guild, config);
+    for (const name of configSectionNames) {
+        if (!(name in entry)) plan.sections[name] = { added: [], removed: [] };
+        else if (mode === 'merge') plan.sections[name].removed = [];
+    }
+    for (const warning of plan.warnings) {
+        console.error(`Config file: ${guild.name}: ${warning}`);
+    }
+    if (!hasConfigChanges(plan)) return;
+
+    await applyConfigImport(client, plan);
+    console.log(`Config file: applied to ${guild.name}\n${describeConfigImportPlan(plan).join('\n')}`);
+}
+
+const readConfigFile = async (path: string): Promise<ConfigFile> => {
+    const content = await readFile(path, 'utf8');
+    const data: unknown = extname(path).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+    const error = getConfigFileError(data);
+    if (error) throw new Error(error);
+    return data as ConfigFile;
+}
+
+// reconciliations run one after the other, a change of the file during a reconciliation is applied after it
+let reconciliation: Promise<void> = Promise.resolve();
+
+/**
+ * Makes the servers of the database match the config file. Invalid files are ignored, so a typo never removes the rules.
+ */
+export const reconcileConfigFile = (client: Client, path: string) => {
+    reconciliation = reconciliation.then(async () => {
+        const file = await readConfigFile(path);
+        for (const entry of file.servers) {
+            await reconcileServer(client, entry, file.mode ?? 'merge');
+        }
+        console.log(`Reconciled the config file ${path}`);
+    }).catch((e) => console.error(`Could not reconcile the config file ${path}:`, e instanceof Error ? e.message : e));
+    return reconciliation;
+}
+
+/**
+ * Reconciles the config file now and every time it changes.
+ */
+export const loadConfigFile = async (client: Client, path: string) => {
+    await reconcileConfigFile(client, path);
+    // the file is polled instead of watched, editors and git replace the file instead of writing in it
+    watchFile(path, { interval: 2000 }, (current, previous) => {
+        if (current.mtimeMs !== previous.mtimeMs) reconcileConfigFile(client, path);
+    });
+}
@@ -0,0 +1,431 @@
+import { validate } from "class-validator";
+import { type Client, type Guild, parseEmoji } from "discord.js";
+import type { BaseEntity, EntityManager } from "typeorm";
+import {
+    BlacklistedEmoji,
+    ChannelSettings,
+    Exemption,
+    getPostgres,
+    Keyword,
+    MediaRule,
+    ReactionPolicy,
+    RecurringMessage,
+    RecurringMessageTask,
+    Server,
+    StrikeThreshold,
+    WhitelistedEmoji,
+    WhitelistedStaffRole
+} from "../database.js";
+import { loadRestrictionConfigs } from "../restrictions/cache.js";
+import { getEmojiIdentifier } from "../restrictions/emojis.js";
+import { loadScheduledJobs } from "../scheduler/jobs.js";
+
+// bumped when the format changes in a way older exports can not be read anymore
+export const configVersion = 1;
+
+export type ConfigItem = Record<string, unknown>;
+
+export type ConfigSectionName = 'keywords' | 'whitelistedEmojis' | 'blacklistedEmojis' | 'staffRoles' | 'exemptions' | 'channelSettings' | 'mediaRules' | 'reactionPolicies' | 'strikeThresholds' | 'recurringMessages';
+
+export interface ServerConfig extends Record<ConfigSectionName, ConfigItem[]> {
+    version: number;
+    exportedAt: string;
+    source: { guildId: string, name: string };
+    // names of the channels, roles and emojis of the exported server, to find them by name when the config is imported in another server
+    names: { channels: Record<string, string>, roles: Record<string, string>, emojis: Record<string, string> };
+    settings: ConfigItem;
+}
+
+interface ConfigRow extends BaseEntity {
+    id: number;
+    serverId: string;
+}
+
+interface ConfigSection {
+    entity: new () => ConfigRow;
+    fields: string[];
+}
+
+export const serverSettingNames = [
+    'blacklistModeEnabled',
+    'auditModeEnabled',
+    'logChannelId',
+    'strikeExpirationHours',
+    'messageNoticeEnabled',
+    'messageNoticeTemplate',
+    'reactionNoticeEnabled',
+    'reactionNoticeTemplate',
+    'noticeFallbackSeconds',
+    'missedRunGraceMinutes'
+];
+
+const taskFields = ['mode', 'dayOfWeek', 'utcTimeHour', 'utcTimeMinute', 'cronExpression', 'timeZone', 'enabled'];
+
+const dateFields = ['startsAt', 'endsAt'];
+
+// a function, because the entities are not defined yet when this module is loaded by the database module
+const getSections = (): Record<ConfigSectionName, ConfigSection> => ({
+    keywords: { entity: Keyword, fields: ['channelId', 'kind', 'text', 'caseInsensitive'] },
+    whitelistedEmojis: { entity: WhitelistedEmoji, fields: ['emojiUnicodeOrId', 'channelId', 'messageId'] },
+    blacklistedEmojis: { entity: BlacklistedEmoji, fields: ['emojiUnicodeOrId', 'channelId', 'messageId'] },
+    staffRoles: { entity: WhitelistedStaffRole, fields: ['roleId'] },
+    exemptions: { entity: Exemption, fields: ['kind', 'targetId', 'channelId'] },
+    channelSettings: {
+        entity: ChannelSettings,
+        fields: ['channelId', 'editAction', 'messageNoticeEnabled', 'messageNoticeTemplate', 'reactionNoticeEnabled', 'reactionNoticeTemplate', 'auditMode', 'maxReactionsPerUser', 'maxDistinctReactions']
+    },
+    mediaRules: { entity: MediaRule, fields: ['channelId', 'requireMedia', 'forbidAttachments', 'maxAttachments', 'maxAttachmentSizeKb', 'allowedExtensions'] },
+    reactionPolicies: { entity: ReactionPolicy, fields: ['mode', 'channelId', 'messageId'] },
+    strikeThresholds: { entity: StrikeThreshold, fields: ['strikes', 'action', 'timeoutMinutes'] },
+    recurringMessages: {
+        entity: RecurringMessage,
+        fields: [
+            'channelId', 'text', 'sendAsEmbed', 'embedColor', 'embedTitle', 'embedUrl', 'embedAuthorName', 'embedAuthorIconUrl',
+            'embedThumbnailUrl', 'embedImageUrl', 'embedFooterText', 'embedFooterIconUrl', 'embedTimestamp', 'embedFields', 'linkButtons',
+            'previousMessageAction', 'pinNewMessage', 'crosspost', 'threadName', 'variantMode', 'startsAt', 'endsAt'
+        ]
+    }
+});
+
+export const configSectionNames: ConfigSectionName[] = [
+    'keywords',
+    'whitelistedEmojis',
+    'blacklistedEmojis',
+    'staffRoles',
+    'exemptions',
+    'channelSettings',
+    'mediaRules',
+    'reactionPolicies',
+    'strikeThresholds',
+    'recurringMessages'
+];
+
+/**
+ * Keeps the given fields of the entity, with the dates as ISO strings, so the item can be compared and stored as JSON.
+ */
+const pick = (source: object, fields: string[]): ConfigItem => {
+    const values = source as ConfigItem;
+    return Object.fromEntries(fields.map(field => {
+        const value = values[field] ?? null;
+        return [field, value instanceof Date ? value.toISOString() : value];
+    }));
+}
+
+const toRecurringMessageItem = (source: object): ConfigItem => {
+    const { tasks } = source as { tasks?: unknown };
+    return {
+        ...pick(source, getSections().recurringMessages.fields),
+        tasks: Array.isArray(tasks) ? tasks.filter(isObject).map(task => pick(task, taskFields)) : []
+    };
+}
+
+const toItem = (name: ConfigSectionName, source: object) => {
+    return name === 'recurringMessages' ? toRecurringMessageItem(source) : pick(source, getSections()[name].fields);
+}
+
+const findRows = async (manager: EntityManager, serverId: string): Promise<Record<ConfigSectionName, ConfigRow[]>> => {
+    const sections = getSections();
+    const rows = {} as Record<ConfigSectionName, ConfigRow[]>;
+    for (const name of configSectionNames) {
+        rows[name] = await manager.getRepository(sections[name].entity).find({
+            where: { serverId },
+            relations: name === 'recurringMessages' ? ['tasks'] : [],
+            order: { id: 'ASC' }
+        });
+    }
+    return rows;
+}
+
+/**
+ * Exports the settings and the rules of the server. The history (moderation actions, strikes, deliveries) and the
+ * one-off scheduled messages are not part of the config.
+ */
+export const exportServerConfig = async (server: Server, guild: Guild | null): Promise<ServerConfig> => {
+    const rows = await findRows((await getPostgres).manager, server.id.toString());
+    const sections = Object.fromEntries(configSectionNames.map(name => [name, rows[name].map(row => toItem(name, row))])) as Record<ConfigSectionName, ConfigItem[]>;
+
+    return {
+        version: configVersion,
+        exportedAt: new Date().toISOString(),
+        source: { guildId: server.serverId, name: guild?.name ?? server.name },
+        names: {
+            channels: Object.fromEntries(guild?.channels.cache.map(channel => [channel.id, channel.name]) ?? []),
+            roles: Object.fromEntries(guild?.roles.cache.map(role => [role.id, role.name]) ?? []),
+            emojis: Object.fromEntries(guild?.emojis.cache.map(emoji => [emoji.id, emoji.name ?? '']) ?? [])
+        },
+        settings: pick(server, serverSettingNames),
+        ...sections
+    };
+}
+
+const isObject = (value: unknown): value is ConfigItem => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Returns why the data is not a config that can be imported, or null if it is valid.
+ */
+export const getServerConfigError = (data: unknown) => {
+    if (!isObject(data)) return 'The file is not a config exported by the bot.';
+    if (typeof data.version !== 'number') return 'The file does not have a version, it was not exported by the bot.';
+    if (data.version > configVersion) return `The file was exported by a newer version of the bot (version ${data.version}), update the bot first.`;
+    if (data.version < 1) return `The version ${data.version} of the config is not supported.`;
+    if (!isObject(data.source) || typeof data.source.guildId !== 'string') return 'The file does not say which server it was exported from.';
+    if (!isObject(data.settings)) return 'The settings of the server are missing.';
+    if (!isObject(data.names) || !isObject(data.names.channels) || !isObject(data.names.roles) || !isObject(data.names.emojis)) {
+        return 'The names of the channels, roles and emojis are missing.';
+    }
+    for (const name of configSectionNames) {
+        const items = data[name];
+        if (!Array.isArray(items) || !items.every(isObject)) return `The ${name} section has to be a list of objects.`;
+    }
+    return null;
+}
+
+/**
+ * Finds the channels, roles and emojis of the config in the guild: by ID if they exist there (same server),
+ * otherwise by name (config cloned from another server). Returns null if they can not be found.
+ */
+const createReferenceMapper = (config: ServerConfig, guild: Guild) => ({
+    sameGuild: config.source.guildId === guild.id,
+    channel: (id: string) => {
+        if (guild.channels.cache.has(id)) return id;
+        const name = config.names.channels[id];
+        return guild.channels.cache.find(channel => channel.name === name)?.id ?? null;
+    },
+    role: (id: string) => {
+        if (guild.roles.cache.has(id)) return id;
+        const name = config.names.roles[id];
+        return guild.roles.cache.find(role => role.name === name)?.id ?? null;
+    },
+    emoji: (identifier: string) => {
+        const parsed = parseEmoji(identifier);
+        // unicode emojis and emojis of other servers are the same everywhere
+        if (!parsed?.id || guild.emojis.cache.has(parsed.id) || !(parsed.id in config.names.emojis)) return identifier;
+        const emoji = guild.emojis.cache.find(emoji => emoji.name === config.names.emojis[parsed.id as string]);
+        return emoji ? getEmojiIdentifier(emoji) : null;
+    }
+});
+
+type ReferenceMapper = ReturnType<typeof createReferenceMapper>;
+
+/**
+ * Replaces the IDs of the item by the ones of the target guild. Returns why the item can not be imported instead if one is missing.
+ */
+const mapReferences = (name: ConfigSectionName, item: ConfigItem, mapper: ReferenceMapper, config: ServerConfig): ConfigItem | string => {
+    const mapped = { ...item };
+
+    if (typeof item.channelId === 'string') {
+        const channelId = mapper.channel(item.channelId);
+        if (!channelId) return `the channel #${config.names.channels[item.channelId] ?? item.channelId} does not exist`;
+        mapped.channelId = channelId;
+    }
+    if (name === 'staffRoles' || (name === 'exemptions' && item.kind === 'role')) {
+        const field = name === 'staffRoles' ? 'roleId' : 'targetId';
+        const roleId = typeof item[field] === 'string' ? mapper.role(item[field] as string) : null;
+        if (!roleId) return `the role @${config.names.roles[item[field] as string] ?? item[field]} does not exist`;
+        mapped[field] = roleId;
+    }
+    if (typeof item.emojiUnicodeOrId === 'string') {
+        const emoji = mapper.emoji(item.emojiUnicodeOrId);
+        if (!emoji) return `the emoji ${item.emojiUnicodeOrId} does not exist`;
+        mapped.emojiUnicodeOrId = emoji;
+    }
+    // messages can not be cloned, the rule would apply to a message that is not in the server
+    if (item.messageId && !mapper.sameGuild) return 'it applies to a message of the other server';
+
+    return mapped;
+}
+
+const describeValue = (value: unknown) => {
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+}
+
+/**
+ * Short description of an item, with its filled fields only.
+ */
+export const describeConfigItem = (item: ConfigItem) => {
+    return Object.entries(item)
+        .filter(([, value]) => value !== null && value !== false && !(Array.isArray(value) && !value.length))
+        .map(([field, value]) => field === 'tasks' && Array.isArray(value) ? `${value.length} task(s)` : `${field}: ${describeValue(value)}`)
+        .join(', ');
+}
+
+/**
+ * Fills the fields missing from the item with the default value of their column, so an item written by hand,
+ * or exported before the column existed, is equal to the rule created from it.
+ */
+const fillColumnDefaults = async (entity: new () => object, rawItem: ConfigItem, item: ConfigItem) => {
+    const metadata = (await getPostgres).getMetadata(entity);
+    for (const field of Object.keys(item)) {
+        const value = metadata.findColumnWithPropertyName(field)?.default;
+        if (!(field in rawItem) && value !== undefined && typeof value !== 'function') item[field] = value;
+    }
+    return item;
+}
+
+const toImportedItem = async (name: ConfigSectionName, rawItem: ConfigItem) => {
+    const item = await fillColumnDefaults(getSections()[name].entity, rawItem, toItem(name, rawItem));
+    if (name === 'recurringMessages') {
+        const rawTasks = Array.isArray(rawItem.tasks) ? rawItem.tasks.filter(isObject) : [];
+        item.tasks = await Promise.all(rawTasks.map(task => fillColumnDefaults(RecurringMessageTask, task, pick(task, taskFields))));
+    }
+    return item;
+}
+
+export interface ConfigSectionChanges {
+    added: ConfigItem[];
+    removed: ConfigRow[];
+}
+
+export interface ConfigImportPlan {
+    server: Server;
+    settings: ConfigItem;
+    settingChanges: string[];
+    sections: Record<ConfigSectionName, ConfigSectionChanges>;
+    warnings: string[];
+}
+
+/**
+ * Compares the config with the current one of the server and returns what importing it would change.
+ * The rules that are in both are kept as they are, so their state (e.g. the last message sent) is not lost.
+ */
+export const planConfigImport = async (server: Server, guild: Guild, config: ServerConfig): Promise<ConfigImportPlan> => {
+    const sections = getSections();
+    const mapper = createReferenceMapper(config, guild);
+    const warnings: string[] = [];
+    const rows = await findRows((await getPostgres).manager, server.id.toString());
+
+    const settings = pick({ ...pick(server, serverSettingNames), ...config.settings }, serverSettingNames);
+    if (typeof settings.logChannelId === 'string') {
+        const logChannelId = mapper.channel(settings.logChannelId);
+        if (!logChannelId) warnings.push(`settings: the log channel #${config.names.channels[settings.logChannelId] ?? settings.logChannelId} does not exist, the logs are disabled`);
+        settings.logChannelId = logChannelId;
+    }
+    const settingErrors = await validate(Object.assign(new Server(), server, settings), { skipMissingProperties: true });
+    if (settingErrors.length) {
+        warnings.push(`settings: ${settingErrors.flatMap(error => Object.values(error.constraints ?? {})).join(' ')} The current settings are kept.`);
+        Object.assign(settings, pick(server, serverSettingNames));
+    }
+    const settingChanges = serverSettingNames
+        .filter(setting => JSON.stringify(settings[setting]) !== JSON.stringify((server as unknown as ConfigItem)[setting] ?? null))
+        .map(setting => `${setting}: ${describeValue((server as unknown as ConfigItem)[setting] ?? null)} → ${describeValue(settings[setting])}`);
+
+    const changes = {} as Record<ConfigSectionName, ConfigSectionChanges>;
+    for (const name of configSectionNames) {
+        const items: ConfigItem[] = [];
+        for (const rawItem of config[name]) {
+            const item = await toImportedItem(name, rawItem);
+            const mapped = mapReferences(name, item, mapper, config);
+            if (typeof mapped === 'string') {
+                warnings.push(`${name}: skipped ${describeConfigItem(item)} (${mapped})`);
+                continue;
+            }
+            const entity = Object.assign(new sections[name].entity(), mapped, { serverId: server.id.toString() });
+            const tasks = name === 'recurringMessages' ? (mapped.tasks as ConfigItem[]).map(task => Object.assign(new RecurringMessageTask(), task)) : [];
+            const errors = (await Promise.all([entity, ...tasks].map(e => validate(e, { skipMissingProperties: true })))).flat();
+            if (errors.length) {
+                warnings.push(`${name}: skipped ${describeConfigItem(mapped)} (${errors.flatMap(error => Object.values(error.constraints ?? {})).join(' ')})`);
+                continue;
+            }
+            items.push(mapped);
+        }
+
+        // the items are compared as JSON, an item is kept when it is both in the server and in the config
+        const pending = new Map<string, ConfigItem[]>();
+        for (const item of items) {
+            const key = JSON.stringify(item);
+            pending.set(key, [...(pending.get(key) ?? []), item]);
+        }
+        const removed = rows[name].filter(row => {
+            const matching = pending.get(JSON.stringify(toItem(name, row)));
+            return !matching?.pop();
+        });
+        changes[name] = { added: [...pending.values()].flat(), removed };
+    }
+
+    return { server, settings, settingChanges, sections: changes, warnings };
+}
+
+/**
+ * Plans the import of a JSON config in a server, from its ID in the database.
+ * Returns why the config can not be imported instead.
+ */
+export const planConfigImportFromJson = async (client: Client, serverId: string, json: string): Promise<ConfigImportPlan | string> => {
+    const server = await (await getPostgres).getRepository(Server).findOne({ where: { id: Number.parseInt(serverId) } });
+    const guild = server && client.guilds.cache.get(server.serverId);
+    if (!server || !guild) return 'The bot is not in this server anymore.';
+
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        return 'The config is not valid JSON.';
+    }
+    return getServerConfigError(data) ?? planConfigImport(server, guild, data as ServerConfig);
+}
+
+export const hasConfigChanges = (plan: ConfigImportPlan) => {
+    return plan.settingChanges.length > 0 || configSectionNames.some(name => plan.sections[name].added.length || plan.sections[name].removed.length);
+}
+
+/**
+ * Lines describing the changes of the plan: "+" for the added rules, "-" for the removed ones, "~" for the settings.
+ */
+export const describeConfigImportPlan = (plan: ConfigImportPlan) => {
+    const lines = plan.settingChanges.map(change => `~ settings: ${change}`);
+    for (const name of configSectionNames) {
+        lines.push(...plan.sections[name].removed.map(row => `- ${name}: ${describeConfigItem(toItem(name, row))}`));
+        lines.push(...plan.sections[name].added.map(item => `+ ${name}: ${describeConfigItem(item)}`));
+    }
+    return lines;
+}
+
+/**
+ * Converts the dates back and leaves out the empty values, so the columns missing from older exports get their default value.
+ */
+const toColumnValues = (item: ConfigItem) => {
+    return Object.fromEntries(Object.entries(item)
+        .filter(([, value]) => value !== null)
+        .map(([field, value]) => [field, dateFields.includes(field) && typeof value === 'string' ? new Date(value) : value]));
+}
+
+/**
+ * Applies the plan in a transaction, then reloads the rules and the scheduled jobs.
+ */
+export const applyConfigImport = async (client: Client, plan: ConfigImportPlan) => {
+    const postgres = await getPostgres;
+    const sections = getSections();
+    const serverId = plan.server.id.toString();
+
+    try {
+        await postgres.transaction(async manager => {
+            for (const name of configSectionNames) {
+                const { added, removed } = plan.sections[name];
+                if (name === 'recurringMessages') {
+                    // the tasks have to be removed before their message
+                    for (const row of removed) {
+                        await manager.remove(await manager.findBy(RecurringMessageTask, { recurringMessageId: row.id }));
+                    }
+                }
+                await manager.remove(removed);
+
+                for (const item of added) {
+                    const { tasks, ...values } = item;
+                    const row = await manager.save(Object.assign(new sections[name].entity(), toColumnValues(values), { serverId }));
+                    for (const task of (tasks as ConfigItem[] | undefined) ?? []) {
+                        await manager.save(Object.assign(new RecurringMessageTask(), toColumnValues(task), { recurringMessageId: row.id }));
+                    }
+                }
+            }
+
+            if (plan.settingChanges.length) {
+                const server = await manager.findOneByOrFail(Server, { id: plan.server.id });
+                await manager.save(Object.assign(server, plan.settings));
+            }
+        });
+    } finally {
+        // the hooks update the caches before the commit, they are reloaded so a rolled back transaction does not leave its rules and jobs
+        await loadRestrictionConfigs();
+        await loadScheduledJobs(client);
+    }
+}
@@ -0,0 +1,45 @@
+import { ApplicationCommandType, MessageFlags, PermissionFlagsBits } from "discord.js";
+import type { ContextMenuRunFunction } from "../handlers/commands.js";
+import { getRestrictionConfig } from "../restrictions/cache.js";
+import { buildEvaluationEmbed, evaluateMessage } from "../restrictions/messages.js";
+import { errorEmbed, replyEmbed } from "../util.js";
+
+export const contextMenus = [
+    {
+        name: 'Why was this removed?',
+        type: ApplicationCommandType.Message,
+        defaultMemberPermissions: PermissionFlagsBits.ManageMessages,
+        dmPermission: false
+    }
+];
+
+export const run: ContextMenuRunFunction = async (interaction) => {
+
+    if (!interaction.isMessageContextMenuCommand() || !interaction.inCachedGuild()) return;
+
+    const restrictionConfig = getRestrictionConfig(interaction.guildId);
+    if (!restrictionConfig) {
+        interaction.reply({ ...errorEmbed('The rules of this server are not loaded yet, please try again in a few minutes.'), flags: MessageFlags.Ephemeral });
+        return;
+    }
+
+    const message = interaction.targetMessage;
+    // the messages of bots and webhooks are never checked by the enforcement
+    if (message.author.bot) {
+        interaction.reply({ ...replyEmbed('This message was sent by a bot or a webhook: the rules do not apply to it, it is never removed.'), flags: MessageFlags.Ephemeral });
+        return;
+    }
+
+    const member = message.member ?? await interaction.guild.members.fetch(message.author.id).catch(() => null);
+    const evaluation = evaluateMessage(restrictionConfig, {
+        member,
+        channelId: message.channelId,
+        content: message.content,
+        attachments: [...message.attachments.values()]
+    });
+
+    const embed = buildEvaluationEmbed(evaluation, message.channelId)
+        .setFooter({ text: member ? `Author: ${member.user.username}` : 'The author is not a member of the server anymore' });
+    interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
+
+}
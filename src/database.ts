@@ -1,21 +1,73 @@
 import { Database, Resource } from "@adminjs/typeorm";
-import { validate } from "class-validator";
-import { Entity, Column, DataSource, PrimaryGeneratedColumn, BaseEntity, ManyToOne, JoinColumn, OneToMany, BeforeRemove, AfterRemove, AfterInsert, AfterUpdate } from "typeorm";
+import { adminRoles, type AdminAccount, type AdminRole, canEdit, checkAccess, hashPassword, isOwner, ScopedResource, toAdminAccount, verifyPassword, withRoleAccess } from "./admin/access.js";
+import { IsEmail, IsIn, Max, Min, Validate, ValidateIf, validate } from "class-validator";
+import { Entity, Column, DataSource, PrimaryGeneratedColumn, BaseEntity, ManyToOne, JoinColumn, OneToMany, BeforeRemove, AfterInsert, AfterUpdate, CreateDateColumn, Unique } from "typeorm";
 import { RelationType, owningRelationSettingsFeature } from '@adminjs/relations';
 import { componentLoader } from './component-loader.js';
 import { join } from "node:path";
 import AdminJSFastify from "@adminjs/fastify";
 import fastifyStatic from "@fastify/static";
-import AdminJS, { ResourceOptions } from "adminjs";
+import AdminJS, { type ActionContext, type ActionRequest, type ActionResponse, type RecordJSON, ResourceOptions, ValidationError } from "adminjs";
 import fastify from "fastify";
-import { client, syncCronJobs } from "./index.js";
+import { client } from "./index.js";
+import { KeywordPatternConstraint, type KeywordKind, keywordKinds } from "./restrictions/keywords.js";
+import { ExemptionTargetConstraint, type ExemptionKind, exemptionKinds, permissionNames } from "./restrictions/exemptions.js";
+import { type ModerationActionType, moderationActionTypes } from "./restrictions/moderation.js";
+import { type StrikeAction, strikeActions } from "./restrictions/strikes.js";
+import { cacheRule, cacheServer, uncacheRule } from "./restrictions/cache.js";
+import { type EditAction, editActions } from "./restrictions/messages.js";
+import { defaultNoticeTemplates, noticePlaceholders } from "./restrictions/notices.js";
+import { type ReactionMode, reactionModes } from "./restrictions/reactions.js";
+import { type DeliveryStatus, deliveryStatuses, type PreviousMessageAction, previousMessageActions } from "./scheduler/delivery.js";
+import { scheduleMessage, scheduleTask, unscheduleMessage, unscheduleRecurringMessage, unscheduleTask } from "./scheduler/jobs.js";
+import { type EmbedField, EmbedContentConstraint, type LinkButton, maxEmbedFields, maxLinkButtons } from "./scheduler/embeds.js";
+import { templatePlaceholders, type VariantMode, variantModes, variantSeparator } from "./scheduler/templates.js";
+import { applyConfigImport, describeConfigImportPlan, exportServerConfig, planConfigImportFromJson } from "./config/transfer.js";
+import { ruleTabNames, sheetSyncIntervalMinutes } from "./integrations/sheets.js";
+import { CronExpressionConstraint, CronTimeFieldConstraint, describeNextRuns, EndDateConstraint, type ScheduleMode, scheduleModes, type TaskSchedule, TimeZoneConstraint } from "./scheduler/schedule.js";
 
 Resource.validate = validate;
-AdminJS.registerAdapter({ Database, Resource });
+// the resources only show the records of the servers of the logged in account
+AdminJS.registerAdapter({ Database, Resource: ScopedResource });
+
+
+/**
+ * Restriction rules are read from an in-memory cache by the handlers, these hooks keep it in sync with the database.
+ */
+abstract class RestrictionRuleEntity extends BaseEntity {
+    abstract id: number;
+    abstract serverId: string;
+
+    @AfterInsert()
+    async afterInsert() {
+        cacheRule(this);
+    }
+
+    @AfterUpdate()
+    async afterUpdate() {
+        cacheRule(this);
+    }
 
+    @BeforeRemove()
+    async beforeRemove() {
+        // the id is not available anymore once the entity is removed
+        uncacheRule(this);
+    }
+}
 
 @Entity()
 export class Server extends BaseEntity {
+
+    @AfterInsert()
+    async afterInsert() {
+        cacheServer(this);
+    }
+
+    @AfterUpdate()
+    async afterUpdate() {
+        cacheServer(this);
+    }
+
     @PrimaryGeneratedColumn()
     id!: number;
 
@@ -38,17 +90,121 @@ export class Server extends BaseEntity {
     @OneToMany(() => RecurringMessage, message => message.server)
     recurringMessages!: RecurringMessage[];
 
+    @OneToMany(() => ScheduledMessage, message => message.server)
+    scheduledMessages!: ScheduledMessage[];
+
+    @OneToMany(() => DeliveryAttempt, attempt => attempt.server)
+    deliveryAttempts!: DeliveryAttempt[];
+
+    @OneToMany(() => ConfigSnapshot, snapshot => snapshot.server)
+    configSnapshots!: ConfigSnapshot[];
+
     @OneToMany(() => WhitelistedStaffRole, role => role.server)
     whitelistedStaffRoles!: WhitelistedStaffRole[];
 
+    @OneToMany(() => Exemption, exemption => exemption.server)
+    exemptions!: Exemption[];
+
+    @OneToMany(() => ChannelSettings, settings => settings.server)
+    channelSettings!: ChannelSettings[];
+
+    @OneToMany(() => MediaRule, rule => rule.server)
+    mediaRules!: MediaRule[];
+
+    @OneToMany(() => ReactionPolicy, policy => policy.server)
+    reactionPolicies!: ReactionPolicy[];
+
+    @OneToMany(() => ModerationAction, action => action.server)
+    moderationActions!: ModerationAction[];
+
+    @OneToMany(() => Strike, strike => strike.server)
+    strikes!: Strike[];
+
+    @OneToMany(() => StrikeThreshold, threshold => threshold.server)
+    strikeThresholds!: StrikeThreshold[];
+
     @Column({
         default: false
     })
     blacklistModeEnabled!: boolean;
+
+    @Column({
+        nullable: false,
+        default: false
+    })
+    auditModeEnabled!: boolean;
+
+    @Column({
+        nullable: true,
+        type: 'text'
+    })
+    logChannelId!: string | null;
+
+    @Column({
+        nullable: false,
+        default: 168
+    })
+    strikeExpirationHours!: number;
+
+    @Column({
+        nullable: false,
+        default: true
+    })
+    messageNoticeEnabled!: boolean;
+
+    @Column({
+        nullable: true,
+        type: 'text'
+    })
+    messageNoticeTemplate!: string | null;
+
+    @Column({
+        nullable: false,
+        default: false
+    })
+    reactionNoticeEnabled!: boolean;
+
+    @Column({
+        nullable: true,
+        type: 'text'
+    })
+    reactionNoticeTemplate!: string | null;
+
+    @Column({
+        nullable: false,
+        default: 60
+    })
+    @Min(0)
+    missedRunGraceMinutes!: number;
+
+    @Column({
+        nullable: false,
+        default: 10
+    })
+    @Min(0)
+    noticeFallbackSeconds!: number;
+
+    @Column({
+        nullable: true,
+        type: 'text'
+    })
+    spreadsheetId!: string | null;
+
+    @Column({
+        nullable: true,
+        type: 'timestamp'
+    })
+    lastSheetSyncAt!: Date | null;
+
+    @Column({
+        nullable: true,
+        type: 'text'
+    })
+    lastSheetSyncReport!: string | null;
 }
 
 @Entity()
-export class WhitelistedStaffRole extends BaseEntity {
+export class WhitelistedStaffRole extends RestrictionRuleEntity {
     @PrimaryGeneratedColumn()
     id!: number;
 
@@ -57,6 +213,12 @@ export class WhitelistedStaffRole extends BaseEntity {
     })
     roleId!: string;
 
+    @Column({
+        nullable: false,
+        default: false
+    })
+    fromSheet!: boolean;
+
     @Column({
         nullable: false,
         type: 'text'
@@ -68,15 +230,70 @@ export class WhitelistedStaffRole extends BaseEntity {
     server!: Server;
 }
 
+// unique per server, a config cloned to another server can keep the channel IDs it could not map
 @Entity()
-export class WhitelistedEmoji extends BaseEntity {
+@Unique(['serverId', 'channelId'])
+export class ChannelSettings extends RestrictionRuleEntity {
     @PrimaryGeneratedColumn()
     id!: number;
 
     @Column({
         nullable: false
     })
-    emojiUnicodeOrId!: string;
+    channelId!: string;
+
+    @Column({
+        nullable: false,
+        default: 'delete'
+    })
+    @IsIn(['delete', 'revert', 'ignore'])
+    editAction!: EditAction;
+
+    @Column({
+        nullable: true,
+        type: 'boolean'
+    })
+    messageNoticeEnabled!: boolean | null;
+
+    @Column({
+        nullable: true,
+        type: 'text'
+    })
+    messageNoticeTemplate!: string | null;
+
+    @Column({
+        nullable: true,
+        type: 'boolean'
+    })
+    reactionNoticeEnabled!: boolean | null;
+
+    @Column({
+        nullable: true,
+        type: 'text'
+    })
+    reactionNoticeTemplate!: string | null;
+
+    @Column({
+        nullable: true,
+        type: 'boolean'
+    })
+    auditMode!: boolean | null;
+
+    @Column({
+        nullable: true,
+        type: 'integer'
+    })
+    @ValidateIf(settings => settings.maxReactionsPerUser !== null)
+    @Min(1)
+    maxReactionsPerUser!: number | null;
+
+    @Column({
+        nullable: true,
+        type: 'integer'
+    })
+    @ValidateIf(settings => settings.maxDistinctReactions !== null)
+    @Min(1)
+    maxDistinctReactions!: number | null;
 
     @Column({
         nullable: false,
@@ -84,20 +301,56 @@ export class WhitelistedEmoji extends BaseEntity {
     })
     serverId!: string;
 
-    @ManyToOne(() => Server, server => server.whitelistedEmojis)
+    @ManyToOne(() => Server, server => server.channelSettings)
     @JoinColumn({ name: "serverId" })
     server!: Server;
 }
 
+// unique per server, like the channel settings
 @Entity()
-export class BlacklistedEmoji extends BaseEntity {
+@Unique(['serverId', 'channelId'])
+export class MediaRule extends RestrictionRuleEntity {
     @PrimaryGeneratedColumn()
     id!: number;
 
     @Column({
         nullable: false
     })
-    emojiUnicodeOrId!: string;
+    channelId!: string;
+
+    @Column({
+        nullable: false,
+        default: false
+    })
+    requireMedia!: boolean;
+
+    @Column({
+        nullable: false,
+        default: false
+    })
+    forbidAttachments!: boolean;
+
+    @Column({
+        nullable: true,
+        type: 'integer'
+    })
+    @ValidateIf(rule => rule.maxAttachments !== null)
+    @Min(0)
+    maxAttachments!: number | null;
+
+    @Column({
+        nullable: true,
+        type: 'integer'
+    })
+    @ValidateIf(rule => rule.maxAttachmentSizeKb !== null)
+    @Min(1)
+    maxAttachmentSizeKb!: number | null;
+
+    @Column({
+        nullable: true,
+        type: 'text'
+    })
+    allowedExtensions!: string | null;
 
     @Column({
         nullable: false,
@@ -105,30 +358,34 @@ export class BlacklistedEmoji extends BaseEntity {
     })
     serverId!: string;
 
-    @ManyToOne(() => Server, server => server.whitelistedEmojis)
+    @ManyToOne(() => Server, server => server.mediaRules)
     @JoinColumn({ name: "serverId" })
     server!: Server;
 }
 
 @Entity()
-export class Keyword extends BaseEntity {
+export class Exemption extends RestrictionRuleEntity {
     @PrimaryGeneratedColumn()
     id!: number;
 
     @Column({
-        default: 'startswith'
+        nullable: false,
+        default: 'role'
     })
-    kind!: string;
+    @IsIn(exemptionKinds.map(k => k.value))
+    kind!: ExemptionKind;
 
     @Column({
         nullable: false
     })
-    text!: string;
+    @Validate(ExemptionTargetConstraint)
+    targetId!: string;
 
     @Column({
-        nullable: false
+        nullable: true,
+        type: 'text'
     })
-    channelId!: string;
+    channelId!: string | null;
 
     @Column({
         nullable: false,
@@ -136,20 +393,20 @@ export class Keyword extends BaseEntity {
     })
     serverId!: string;
 
-    @ManyToOne(() => Server, server => server.keywords)
+    @ManyToOne(() => Server, server => server.exemptions)
     @JoinColumn({ name: "serverId" })
     server!: Server;
 }
 
 @Entity()
-export class RecurringMessage extends BaseEntity {
+export class ModerationAction extends BaseEntity {
     @PrimaryGeneratedColumn()
     id!: number;
 
     @Column({
         nullable: false
     })
-    serverId!: string;
+    type!: ModerationActionType;
 
     @Column({
         nullable: false
@@ -159,84 +416,789 @@ export class RecurringMessage extends BaseEntity {
     @Column({
         nullable: false
     })
-    text!: string;
+    userId!: string;
 
     @Column({
         nullable: false,
-        default: false
+        type: 'text'
     })
-    sendAsEmbed!: boolean;
+    rule!: string;
 
     @Column({
-        nullable: true,
-        default: '#f7981d'
+        nullable: false,
+        type: 'text'
     })
-    embedColor!: string;
+    content!: string;
 
-    @OneToMany(() => RecurringMessageTask, task => task.recurringMessage)
-    tasks!: RecurringMessageTask[];
+    @CreateDateColumn()
+    createdAt!: Date;
 
-    @ManyToOne(() => Server, server => server.recurringMessages)
+    @Column({
+        nullable: false,
+        type: 'text'
+    })
+    serverId!: string;
+
+    @ManyToOne(() => Server, server => server.moderationActions)
     @JoinColumn({ name: "serverId" })
     server!: Server;
-    
 }
 
 @Entity()
-export class RecurringMessageTask extends BaseEntity {
+export class Strike extends BaseEntity {
+    @PrimaryGeneratedColumn()
+    id!: number;
 
-    @AfterRemove()
-    async afterRemove() {
-        syncCronJobs();
-    }
+    @Column({
+        nullable: false
+    })
+    userId!: string;
 
-    @AfterInsert()
-    async afterInsert() {
-        syncCronJobs();
-    }
+    @Column({
+        nullable: false,
+        type: 'text'
+    })
+    reason!: string;
 
-    @AfterUpdate()
-    async afterUpdate() {
-        syncCronJobs();
-    }
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @Column({
+        nullable: true,
+        type: 'timestamp'
+    })
+    expiresAt!: Date | null;
+
+    @Column({
+        nullable: false,
+        type: 'text'
+    })
+    serverId!: string;
+
+    @ManyToOne(() => Server, server => server.strikes)
+    @JoinColumn({ name: "serverId" })
+    server!: Server;
+}
 
+@Entity()
+export class StrikeThreshold extends BaseEntity {
     @PrimaryGeneratedColumn()
     id!: number;
-    
+
     @Column({
         nullable: false
     })
-    recurringMessageId!: number;
+    @Min(1)
+    strikes!: number;
 
     @Column({
-        nullable: false
+        nullable: false,
+        default: 'warn'
     })
-    dayOfWeek!: string;
+    @IsIn(['warn', 'timeout'])
+    action!: StrikeAction;
 
     @Column({
-        nullable: false
+        nullable: true,
+        type: 'integer'
     })
-    utcTimeHour!: string;
+    @ValidateIf(threshold => threshold.action === 'timeout')
+    @Min(1)
+    @Max(40320)
+    timeoutMinutes!: number | null;
 
     @Column({
-        nullable: false
+        nullable: false,
+        type: 'text'
     })
-    utcTimeMinute!: string;
+    serverId!: string;
 
-    @ManyToOne(() => RecurringMessage, message => message.tasks)
-    @JoinColumn({ name: "recurringMessageId" })
-    recurringMessage!: RecurringMessage;
+    @ManyToOne(() => Server, server => server.strikeThresholds)
+    @JoinColumn({ name: "serverId" })
+    server!: Server;
 }
 
-const entities = [Server, WhitelistedEmoji, Keyword, RecurringMessage, RecurringMessageTask, WhitelistedStaffRole, BlacklistedEmoji];
-
-let resolveInitialize: (value: DataSource) => void;
-export const getPostgres: Promise<DataSource> = new Promise((resolve) => {
-	resolveInitialize = resolve;
-});
+@Entity()
+export class WhitelistedEmoji extends RestrictionRuleEntity {
+    @PrimaryGeneratedColumn()
+    id!: number;
 
-export const initialize = () => {
-	const Postgres = new DataSource({
+    @Column({
+        nullable: false
+    })
+    emojiUnicodeOrId!: string;
+
+    @Column({
+        nullable: true,
+        type: 'text'
+    })
+    channelId!: string | null;
+
+    @Column({
+        nullable: true,
+        type: 'text'
+    })
+    messageId!: string | null;
+
+    @Column({
+        nullable: false,
+        default: false
+    })
+    fromSheet!: boolean;
+
+    @Column({
+        nullable: false,
+        type: 'text'
+    })
+    serverId!: string;
+
+    @ManyToOne(() => Server, server => server.whitelistedEmojis)
+    @JoinColumn({ name: "serverId" })
+    server!: Server;
+}
+
+@Entity()
+export class BlacklistedEmoji extends RestrictionRuleEntity {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column({
+        nullable: false
+    })
+    emojiUnicodeOrId!: string;
+
+    @Column({
+        nullable: true,
+        type: 'text'
+    })
+    channelId!: string | null;
+
+    @Column({
+        nullable: true,
+        type: 'text'
+    })
+    messageId!: string | null;
+
+    @Column({
+        nullable: false,
+        default: false
+    })
+    fromSheet!: boolean;
+
+    @Column({
+        nullable: false,
+        type: 'text'
+    })
+    serverId!: string;
+
+    @ManyToOne(() => Server, server => server.whitelistedEmojis)
+    @JoinColumn({ name: "serverId" })
+    server!: Server;
+}
+
+@Entity()
+export class ReactionPolicy extends RestrictionRuleEntity {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column({
+        nullable: false,
+        default: 'whitelist'
+    })
+    @IsIn(['whitelist', 'blacklist', 'off'])
+    mode!: ReactionMode;
+
+    @Column({
+        nullable: true,
+        type: 'text'
+    })
+    channelId!: string | null;
+
+    @Column({
+        nullable: true,
+        type: 'text'
+    })
+    messageId!: string | null;
+
+    @Column({
+        nullable: false,
+        type: 'text'
+    })
+    serverId!: string;
+
+    @ManyToOne(() => Server, server => server.reactionPolicies)
+    @JoinColumn({ name: "serverId" })
+    server!: Server;
+}
+
+@Entity()
+export class Keyword extends RestrictionRuleEntity {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column({
+        default: 'startswith'
+    })
+    @IsIn(keywordKinds.map(k => k.value))
+    kind!: KeywordKind;
+
+    @Column({
+        nullable: false
+    })
+    @Validate(KeywordPatternConstraint)
+    text!: string;
+
+    @Column({
+        nullable: false,
+        default: false
+    })
+    caseInsensitive!: boolean;
+
+    @Column({
+        nullable: false
+    })
+    channelId!: string;
+
+    @Column({
+        nullable: false,
+        default: false
+    })
+    fromSheet!: boolean;
+
+    @Column({
+        nullable: false,
+        type: 'text'
+    })
+    serverId!: string;
+
+    @ManyToOne(() => Server, server => server.keywords)
+    @JoinColumn({ name: "serverId" })
+    server!: Server;
+}
+
+@Entity()
+export class RecurringMessage extends BaseEntity {
+
+    @BeforeRemove()
+    async beforeRemove() {
+        unscheduleRecurringMessage(this.id);
+    }
+
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column({
+        nullable: false
+    })
+    serverId!: string;
+
+    @Column({
+        nullable: false
+    })
+    channelId!: string;
+
+    @Column({
+        nullable: false
+    })
+    text!: string;
+
+    @Column({
+        nullable: false,
+        default: false
+    })
+    sendAsEmbed!: boolean;
+
+    @Column({
+        nullable: true,
+        default: '#f7981d'
+    })
+    embedColor!: string;
+
+    @Column({
+        nullable: true,
+        type: 'text'
+    })
+    embedTitle!: string | null;
+
+    @Column({
+        nullable: true,
+        type: 'text'
+    })
+    embedUrl!: string | null;
+
+    @Column({
+        nullable: true,
+        type: 'text'
+    })
+    embedAuthorName!: string | null;
+
+    @Column({
+        nullable: true,
+        type: 'text'
+    })
+    embedAuthorIconUrl!: string | null;
+
+    @Column({
+        nullable: true,
+        type: 'text'
+    })
+    embedThumbnailUrl!: string | null;
+
+    @Column({
+        nullable: true,
+        type: 'text'
+    })
+    embedImageUrl!: string | null;
+
+    @Column({
+        nullable: true,
+        type: 'text'
+    })
+    embedFooterText!: string | null;
+
+    @Column({
+        nullable: true,
+        type: 'text'
+    })
+    embedFooterIconUrl!: string | null;
+
+    @Column({
+        nullable: false,
+        default: false
+    })
+    embedTimestamp!: boolean;
+
+    @Column({
+        nullable: true,
+        type: 'jsonb'
+    })
+    @Validate(EmbedContentConstraint)
+    embedFields!: EmbedField[] | null;
+
+    @Column({
+        nullable: true,
+        type: 'jsonb'
+    })
+    linkButtons!: LinkButton[] | null;
+
+    @Column({
+        nullable: false,
+        default: 'keep'
+    })
+    @IsIn(['keep', 'delete', 'unpin'])
+    previousMessageAction!: PreviousMessageAction;
+
+    @Column({
+        nullable: false,
+        default: false
+    })
+    pinNewMessage!: boolean;
+
+    @Column({
+        nullable: false,
+        default: false
+    })
+    crosspost!: boolean;
+
+    @Column({
+        nullable: true,
+        type: 'text'
+    })
+    threadName!: string | null;
+
+    @Column({
+        nullable: true,
+        type: 'text'
+    })
+    lastMessageId!: string | null;
+
+    @Column({
+        nullable: false,
+        default: 'none'
+    })
+    @IsIn(['none', 'rotate', 'random'])
+    variantMode!: VariantMode;
+
+    @Column({
+        nullable: false,
+        default: 0
+    })
+    nextVariant!: number;
+
+    @Column({
+        nullable: true,
+        type: 'timestamp'
+    })
+    startsAt!: Date | null;
+
+    @Column({
+        nullable: true,
+        type: 'timestamp'
+    })
+    @ValidateIf(message => message.startsAt && message.endsAt)
+    @Validate(EndDateConstraint)
+    endsAt!: Date | null;
+
+    @OneToMany(() => RecurringMessageTask, task => task.recurringMessage)
+    tasks!: RecurringMessageTask[];
+
+    @ManyToOne(() => Server, server => server.recurringMessages)
+    @JoinColumn({ name: "serverId" })
+    server!: Server;
+    
+}
+
+@Entity()
+export class RecurringMessageTask extends BaseEntity {
+
+    @BeforeRemove()
+    async beforeRemove() {
+        unscheduleTask(this.id);
+    }
+
+    @AfterInsert()
+    async afterInsert() {
+        scheduleTask(client, this);
+    }
+
+    @AfterUpdate()
+    async afterUpdate() {
+        scheduleTask(client, this);
+    }
+
+    @PrimaryGeneratedColumn()
+    id!: number;
+    
+    @Column({
+        nullable: false
+    })
+    recurringMessageId!: number;
+
+    @Column({
+        nullable: false,
+        default: 'simple'
+    })
+    @IsIn(['simple', 'advanced'])
+    mode!: ScheduleMode;
+
+    @Column({
+        nullable: true,
+        type: 'varchar'
+    })
+    @ValidateIf(task => task.mode !== 'advanced')
+    @IsIn(['*', 'SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'])
+    dayOfWeek!: string | null;
+
+    // the hour is in the time zone of the task, the column keeps its name to not lose the existing data
+    @Column({
+        nullable: true,
+        type: 'varchar'
+    })
+    @ValidateIf(task => task.mode !== 'advanced')
+    @Validate(CronTimeFieldConstraint, ['hour'])
+    utcTimeHour!: string | null;
+
+    @Column({
+        nullable: true,
+        type: 'varchar'
+    })
+    @ValidateIf(task => task.mode !== 'advanced')
+    @Validate(CronTimeFieldConstraint, ['minute'])
+    utcTimeMinute!: string | null;
+
+    @Column({
+        nullable: true,
+        type: 'text'
+    })
+    @ValidateIf(task => task.mode === 'advanced')
+    @Validate(CronExpressionConstraint)
+    cronExpression!: string | null;
+
+    @Column({
+        nullable: false,
+        type: 'text',
+        default: 'UTC'
+    })
+    @Validate(TimeZoneConstraint)
+    timeZone!: string;
+
+    @Column({
+        nullable: false,
+        default: true
+    })
+    enabled!: boolean;
+
+    @Column({
+        nullable: true,
+        type: 'timestamp'
+    })
+    lastRunAt!: Date | null;
+
+    @ManyToOne(() => RecurringMessage, message => message.tasks)
+    @JoinColumn({ name: "recurringMessageId" })
+    recurringMessage!: RecurringMessage;
+}
+
+@Entity()
+export class ScheduledMessage extends BaseEntity {
+
+    @BeforeRemove()
+    async beforeRemove() {
+        unscheduleMessage(this.id);
+    }
+
+    @AfterInsert()
+    async afterInsert() {
+        scheduleMessage(client, this);
+    }
+
+    @AfterUpdate()
+    async afterUpdate() {
+        scheduleMessage(client, this);
+    }
+
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column({
+        nullable: false
+    })
+    serverId!: string;
+
+    @Column({
+        nullable: false
+    })
+    channelId!: string;
+
+    @Column({
+        nullable: false
+    })
+    text!: string;
+
+    @Column({
+        nullable: false,
+        default: false
+    })
+    sendAsEmbed!: boolean;
+
+    @Column({
+        nullable: true,
+        default: '#f7981d'
+    })
+    embedColor!: string;
+
+    @Column({
+        nullable: false,
+        type: 'timestamp'
+    })
+    sendAt!: Date;
+
+    @Column({
+        nullable: true,
+        type: 'timestamp'
+    })
+    sentAt!: Date | null;
+
+    @Column({
+        nullable: true,
+        type: 'timestamp'
+    })
+    failedAt!: Date | null;
+
+    @ManyToOne(() => Server, server => server.scheduledMessages)
+    @JoinColumn({ name: "serverId" })
+    server!: Server;
+}
+
+@Entity()
+export class DeliveryAttempt extends BaseEntity {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column({
+        nullable: false
+    })
+    status!: DeliveryStatus;
+
+    @Column({
+        nullable: false
+    })
+    attempt!: number;
+
+    @Column({
+        nullable: true,
+        type: 'text'
+    })
+    error!: string | null;
+
+    @Column({
+        nullable: false
+    })
+    channelId!: string;
+
+    @Column({
+        nullable: true,
+        type: 'text'
+    })
+    messageId!: string | null;
+
+    @Column({
+        nullable: true,
+        type: 'integer'
+    })
+    taskId!: number | null;
+
+    @Column({
+        nullable: true,
+        type: 'integer'
+    })
+    recurringMessageId!: number | null;
+
+    @Column({
+        nullable: true,
+        type: 'integer'
+    })
+    scheduledMessageId!: number | null;
+
+    @Column({
+        nullable: false,
+        type: 'timestamp'
+    })
+    scheduledFor!: Date;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @Column({
+        nullable: false
+    })
+    serverId!: string;
+
+    @ManyToOne(() => Server, server => server.deliveryAttempts)
+    @JoinColumn({ name: "serverId" })
+    server!: Server;
+}
+
+@Entity()
+export class ConfigSnapshot extends BaseEntity {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column({
+        nullable: false,
+        type: 'text'
+    })
+    content!: string;
+
+    @Column({
+        nullable: true,
+        type: 'timestamp'
+    })
+    appliedAt!: Date | null;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @Column({
+        nullable: false
+    })
+    serverId!: string;
+
+    @ManyToOne(() => Server, server => server.configSnapshots)
+    @JoinColumn({ name: "serverId" })
+    server!: Server;
+}
+
+@Entity()
+export class AdminUser extends BaseEntity {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column({
+        nullable: false,
+        unique: true
+    })
+    @IsEmail({}, { message: 'The email is not valid.' })
+    email!: string;
+
+    @Column({
+        nullable: false,
+        type: 'text'
+    })
+    passwordHash!: string;
+
+    @Column({
+        nullable: false,
+        default: 'viewer'
+    })
+    @IsIn(adminRoles.map(role => role.value))
+    role!: AdminRole;
+
+    // IDs of the Server records the account has access to
+    @Column({
+        nullable: false,
+        type: 'jsonb',
+        default: () => "'[]'"
+    })
+    serverIds!: string[];
+
+    @CreateDateColumn()
+    createdAt!: Date;
+}
+
+const entities = [Server, WhitelistedEmoji, Keyword, RecurringMessage, RecurringMessageTask, WhitelistedStaffRole, BlacklistedEmoji, Exemption, ModerationAction, Strike, StrikeThreshold, ChannelSettings, MediaRule, ReactionPolicy, ScheduledMessage, DeliveryAttempt, ConfigSnapshot, AdminUser];
+
+let resolveInitialize: (value: DataSource) => void;
+export const getPostgres: Promise<DataSource> = new Promise((resolve) => {
+	resolveInitialize = resolve;
+});
+
+export const findServer = async (guildId: string) => {
+    return (await getPostgres).getRepository(Server).findOne({
+        where: {
+            serverId: guildId
+        }
+    });
+}
+
+const minPasswordLength = 8;
+
+/**
+ * Replaces the password typed in the form by its hash, the password itself is never stored.
+ */
+const prepareAdminUserPayload = async (request: ActionRequest, isNew: boolean) => {
+    if (request.method !== 'post' || !request.payload) return request;
+    const { password, ...payload } = request.payload;
+    if (password || isNew) {
+        if (typeof password !== 'string' || password.length < minPasswordLength) {
+            throw new ValidationError({ password: { message: `The password has to be at least ${minPasswordLength} characters long.` } });
+        }
+        payload.passwordHash = await hashPassword(password);
+    }
+    if (typeof payload.email === 'string') payload.email = payload.email.trim().toLowerCase();
+    return { ...request, payload };
+}
+
+/**
+ * Logs in an admin account. While there is no account, ADMINJS_PASSWORD logs in with any email and creates the first owner with it.
+ */
+const authenticateAdmin = async (emailInput: string, password: string): Promise<AdminAccount | null> => {
+    const email = emailInput.trim().toLowerCase();
+    if (!email || !password) return null;
+
+    let user = await AdminUser.findOneBy({ email });
+    if (!user && process.env.ADMINJS_PASSWORD && password === process.env.ADMINJS_PASSWORD && await AdminUser.count() === 0) {
+        user = await AdminUser.create({ email, passwordHash: await hashPassword(password), role: 'owner', serverIds: [] }).save();
+        console.log(`Created the owner account ${email}, manage the accounts in the Admin Users resource`);
+    } else if (!user || !await verifyPassword(password, user.passwordHash)) {
+        return null;
+    }
+
+    return toAdminAccount(user);
+}
+
+export const initialize = () => {
+	const Postgres = new DataSource({
 		type: "postgres",
 		host: process.env.DB_HOST,
 		database: process.env.DB_NAME,
@@ -258,13 +1220,133 @@ export const initialize = () => {
                                     type: 'textarea',
                                     props: {
                                         rows: 20,
-                                    }
+                                    },
+                                    description: `Placeholders: ${templatePlaceholders}. Separate the variants with a line containing only "${variantSeparator}".`
+                                },
+                                variantMode: {
+                                    availableValues: variantModes
+                                },
+                                embedTitle: {
+                                    description: 'The embed options are only used when the message is sent as an embed. Placeholders can be used in the texts.'
+                                },
+                                embedTimestamp: {
+                                    description: 'Show the date the message was sent in the footer.'
+                                },
+                                embedFields: {
+                                    type: 'mixed',
+                                    isArray: true,
+                                    description: `Up to ${maxEmbedFields} fields.`
+                                },
+                                'embedFields.name': {
+                                    type: 'string'
+                                },
+                                'embedFields.value': {
+                                    type: 'textarea'
+                                },
+                                'embedFields.inline': {
+                                    type: 'boolean'
+                                },
+                                linkButtons: {
+                                    type: 'mixed',
+                                    isArray: true,
+                                    description: `Buttons opening a link, shown below the message (up to ${maxLinkButtons}).`
+                                },
+                                'linkButtons.label': {
+                                    type: 'string'
+                                },
+                                'linkButtons.url': {
+                                    type: 'string'
+                                },
+                                previousMessageAction: {
+                                    availableValues: previousMessageActions,
+                                    description: 'What happens to the previous message sent by this recurring message when a new one is sent.'
+                                },
+                                pinNewMessage: {
+                                    description: 'Pin every new message (up to 50 messages can be pinned in a channel).'
+                                },
+                                crosspost: {
+                                    description: 'Publish the message to the following servers when the channel is an announcement channel.'
+                                },
+                                threadName: {
+                                    description: 'Start a thread on every new message with this name. Placeholders can be used. Leave empty to not start threads.'
+                                },
+                                lastMessageId: {
+                                    description: 'ID of the last message sent.',
+                                    isVisible: { list: false, show: true, edit: false, filter: false }
+                                },
+                                nextVariant: {
+                                    description: 'Index of the next variant sent in the rotate mode.',
+                                    isVisible: { list: false, show: true, edit: false, filter: false }
+                                },
+                                startsAt: {
+                                    description: 'The message is not sent before this date. Leave empty to start right away.'
+                                },
+                                endsAt: {
+                                    description: 'The message is not sent after this date. Leave empty to never stop.'
+                                }
+                            }
+                        }
+                    case ScheduledMessage:
+                        return {
+                            sort: {
+                                sortBy: 'sendAt',
+                                direction: 'desc'
+                            },
+                            properties: {
+                                text: {
+                                    type: 'textarea',
+                                    props: {
+                                        rows: 20,
+                                    },
+                                    description: `Placeholders: ${templatePlaceholders}. Dates are in UTC.`
+                                },
+                                sentAt: {
+                                    description: 'Date the message was delivered, it is not sent again once set.',
+                                    isVisible: { list: true, show: true, edit: false, filter: true }
+                                },
+                                failedAt: {
+                                    description: 'Date the delivery failed for good (see the delivery attempts). Clear it to try again.'
                                 }
                             }
                         }
                     case RecurringMessageTask:
                         return {
+                            actions: {
+                                list: {
+                                    after: async (response: ActionResponse) => {
+                                        for (const record of response.records as RecordJSON[]) {
+                                            record.params.nextRuns = describeNextRuns(record.params as TaskSchedule, 1);
+                                        }
+                                        return response;
+                                    }
+                                },
+                                show: {
+                                    after: async (response: ActionResponse) => {
+                                        response.record.params.nextRuns = describeNextRuns(response.record.params as TaskSchedule, 5);
+                                        return response;
+                                    }
+                                }
+                            },
                             properties: {
+                                mode: {
+                                    availableValues: scheduleModes
+                                },
+                                cronExpression: {
+                                    description: 'Only used in the advanced mode. Seconds are optional, e.g. "0 */2 * * *" for every 2 hours or "30 9 1-7 * *" for 9:30 on the first 7 days of the month.'
+                                },
+                                timeZone: {
+                                    description: 'IANA time zone of the schedule (e.g. Europe/Paris), daylight saving time is taken into account.'
+                                },
+                                nextRuns: {
+                                    type: 'textarea',
+                                    isVisible: { list: true, show: true, edit: false, filter: false }
+                                },
+                                enabled: {
+                                    description: 'Disabled tasks are not run. Tasks are disabled automatically when their channel is deleted.'
+                                },
+                                lastRunAt: {
+                                    isVisible: { list: false, show: true, edit: false, filter: false }
+                                },
                                 dayOfWeek: {
                                     availableValues: [
                                         { value: '*', label: 'Every day' },
@@ -278,20 +1360,105 @@ export const initialize = () => {
                                     ]
                                 },
                                 utcTimeHour: {
+                                    description: 'Hour in the time zone of the task, only used in the simple mode.',
                                     availableValues: Array.from({ length: 24 }, (_, i) => ({ value: i.toString(), label: i.toString() }))
                                 },
                                 utcTimeMinute: {
+                                    description: 'Only used in the simple mode.',
                                     availableValues: Array.from({ length: 60 }, (_, i) => ({ value: i.toString(), label: i.toString() }))
                                 }
                             }
                         }
+                    case DeliveryAttempt:
+                        return {
+                            sort: {
+                                sortBy: 'createdAt',
+                                direction: 'desc'
+                            },
+                            properties: {
+                                status: {
+                                    availableValues: deliveryStatuses
+                                },
+                                error: {
+                                    type: 'textarea'
+                                }
+                            },
+                            actions: {
+                                new: { isAccessible: false },
+                                edit: { isAccessible: false }
+                            }
+                        };
                     case Server:
                         return {
+                            properties: {
+                                auditModeEnabled: {
+                                    description: 'In audit mode, the messages and reactions breaking the rules are only reported in the log channel: nothing is removed, no DM is sent and no strike is given. Can be overridden by the channel settings.'
+                                },
+                                missedRunGraceMinutes: {
+                                    description: 'Scheduled runs missed while the bot was offline are sent on startup if they are not older than this number of minutes. 0 to never catch up.'
+                                },
+                                logChannelId: {
+                                    description: 'ID of the channel where every deleted message and removed reaction is logged. Leave empty to disable the logs.'
+                                },
+                                strikeExpirationHours: {
+                                    description: 'Number of hours after which a strike expires. 0 means strikes never expire.'
+                                },
+                                messageNoticeTemplate: {
+                                    type: 'textarea',
+                                    description: `DM sent when a message is deleted. Leave empty for the default one: "${defaultNoticeTemplates.message}". Placeholders: ${noticePlaceholders}.`
+                                },
+                                reactionNoticeTemplate: {
+                                    type: 'textarea',
+                                    description: `DM sent when a reaction is removed. Leave empty for the default one: "${defaultNoticeTemplates.reaction}". Placeholders: ${noticePlaceholders}.`
+                                },
+                                noticeFallbackSeconds: {
+                                    description: 'When the DMs of the member are closed, a short message is sent in the channel and deleted after this number of seconds. 0 disables it.'
+                                },
+                                spreadsheetId: {
+                                    description: `ID or link of a Google spreadsheet shared with the service account of the bot. Its tabs (${ruleTabNames.join(', ')}) are synced into the rules every ${sheetSyncIntervalMinutes} minutes and with /sheets sync. Leave empty to disable the sync.`
+                                },
+                                lastSheetSyncAt: {
+                                    isVisible: { list: false, show: true, edit: false, filter: false }
+                                },
+                                lastSheetSyncReport: {
+                                    type: 'textarea',
+                                    isVisible: { list: false, show: true, edit: false, filter: false }
+                                }
+                            },
                             actions: {
+                                new: { isAccessible: isOwner },
+                                delete: { isAccessible: isOwner },
+                                bulkDelete: { isAccessible: isOwner },
+                                exportConfig: {
+                                    actionType: 'record',
+                                    component: false,
+                                    isAccessible: canEdit,
+                                    handler: async (_request, _response, context) => {
+                                        await checkAccess(context);
+                                        const { record, currentAdmin, h } = context;
+                                        const server = await Server.findOneByOrFail({ id: Number.parseInt(record?.params.id) });
+                                        const config = await exportServerConfig(server, client.guilds.cache.get(server.serverId) ?? null);
+                                        const snapshot = await ConfigSnapshot.create({
+                                            serverId: server.id.toString(),
+                                            content: JSON.stringify(config, null, 4)
+                                        }).save();
+
+                                        return {
+                                            record: record?.toJSON(currentAdmin),
+                                            redirectUrl: h.recordActionUrl({ resourceId: 'ConfigSnapshot', recordId: snapshot.id.toString(), actionName: 'show' }),
+                                            notice: {
+                                                message: 'The config has been exported, copy it to clone it to another server.',
+                                                type: 'success'
+                                            }
+                                        }
+                                    },
+                                },
                                 kickFromServer: {
                                     actionType: 'record',
                                     component: false,
-                                    handler: (request, response, context) => {
+                                    isAccessible: isOwner,
+                                    handler: async (request, response, context) => {
+                                        await checkAccess(context, true);
                                         const { record, currentAdmin } = context
     
                                         console.log(record);
@@ -307,21 +1474,256 @@ export const initialize = () => {
                                 },
                             },
                         };
+                    case ConfigSnapshot:
+                        return {
+                            sort: {
+                                sortBy: 'createdAt',
+                                direction: 'desc'
+                            },
+                            properties: {
+                                content: {
+                                    type: 'textarea',
+                                    props: {
+                                        rows: 20,
+                                    },
+                                    description: 'JSON config created by the export action of a server or by /config export. To clone a config to another server, paste it in a new snapshot of that server: the channels, roles and emojis are found by name.',
+                                    isVisible: { list: false, show: true, edit: true, filter: false }
+                                },
+                                changes: {
+                                    type: 'textarea',
+                                    description: 'What applying the snapshot would change in the server: + added, - removed, ~ changed setting, ! skipped.',
+                                    isVisible: { list: false, show: true, edit: false, filter: false }
+                                },
+                                appliedAt: {
+                                    isVisible: { list: true, show: true, edit: false, filter: true }
+                                }
+                            },
+                            actions: {
+                                show: {
+                                    after: async (response: ActionResponse) => {
+                                        const plan = await planConfigImportFromJson(client, response.record.params.serverId, response.record.params.content);
+                                        response.record.params.changes = typeof plan === 'string'
+                                            ? plan
+                                            : [...describeConfigImportPlan(plan), ...plan.warnings.map(warning => `! ${warning}`)].join('\n') || 'The config of the server is already the same.';
+                                        return response;
+                                    }
+                                },
+                                applyConfig: {
+                                    actionType: 'record',
+                                    component: false,
+                                    isAccessible: canEdit,
+                                    guard: 'Replace the config of the server by this one? Check the changes of the snapshot first.',
+                                    handler: async (_request, _response, context) => {
+                                        await checkAccess(context);
+                                        const { record, currentAdmin } = context;
+                                        const plan = await planConfigImportFromJson(client, record?.params.serverId, record?.params.content);
+                                        if (typeof plan === 'string') {
+                                            return {
+                                                record: record?.toJSON(currentAdmin),
+                                                notice: { message: plan, type: 'error' }
+                                            }
+                                        }
+
+                                        await applyConfigImport(client, plan);
+                                        await record?.update({ appliedAt: new Date() });
+                                        return {
+                                            record: record?.toJSON(currentAdmin),
+                                            notice: { message: 'The config has been applied.', type: 'success' }
+                                        }
+                                    }
+                                }
+                            }
+                        };
                     case WhitelistedEmoji:
+                    case BlacklistedEmoji:
                         return {
                             properties: {
                                 emojiUnicodeOrId: {
-                                    description: 'For custom emojis, open a Discord channel, append a \\ in front of the emoji and send it.'
+                                    description: 'Easier: use the /emojis command in Discord. For custom emojis, open a Discord channel, append a \\ in front of the emoji and send it.'
+                                },
+                                channelId: {
+                                    description: 'Leave empty to apply the rule to the whole server.'
                                 },
+                                messageId: {
+                                    description: 'Fill to apply the rule to a single message only.'
+                                },
+                                fromSheet: {
+                                    description: 'Created by the Google Sheets sync: the rule is removed when its row is removed from the spreadsheet.'
+                                }
+                            }
+                        };
+                    case ReactionPolicy:
+                        return {
+                            properties: {
+                                mode: {
+                                    availableValues: reactionModes
+                                },
+                                channelId: {
+                                    description: 'Leave both the channel and the message empty to override the blacklist mode of the server.'
+                                },
+                                messageId: {
+                                    description: 'Fill to set the mode of a single message only.'
+                                }
+                            }
+                        };
+                    case ModerationAction:
+                        return {
+                            sort: {
+                                sortBy: 'createdAt',
+                                direction: 'desc'
+                            },
+                            properties: {
+                                type: {
+                                    availableValues: moderationActionTypes
+                                },
+                                content: {
+                                    type: 'textarea'
+                                }
+                            },
+                            actions: {
+                                new: { isAccessible: false },
+                                edit: { isAccessible: false }
+                            }
+                        };
+                    case StrikeThreshold:
+                        return {
+                            properties: {
+                                strikes: {
+                                    description: 'Number of active strikes that triggers the action. Past the highest threshold, the highest action is applied again for every strike.'
+                                },
+                                action: {
+                                    availableValues: strikeActions
+                                },
+                                timeoutMinutes: {
+                                    description: 'Only for the timeout action (at most 40320 minutes, i.e. 28 days).'
+                                }
+                            }
+                        };
+                    case ChannelSettings:
+                        return {
+                            properties: {
+                                editAction: {
+                                    availableValues: editActions
+                                },
+                                messageNoticeEnabled: {
+                                    description: 'Leave empty to use the setting of the server.'
+                                },
+                                messageNoticeTemplate: {
+                                    type: 'textarea',
+                                    description: `Leave empty to use the template of the server. Placeholders: ${noticePlaceholders}.`
+                                },
+                                reactionNoticeEnabled: {
+                                    description: 'Leave empty to use the setting of the server.'
+                                },
+                                reactionNoticeTemplate: {
+                                    type: 'textarea',
+                                    description: `Leave empty to use the template of the server. Placeholders: ${noticePlaceholders}.`
+                                },
+                                auditMode: {
+                                    description: 'In audit mode, the messages and reactions breaking the rules are only reported in the log channel, nothing is removed. Leave empty to use the mode of the server.'
+                                },
+                                maxReactionsPerUser: {
+                                    description: 'Maximum number of reactions a member can add to the same message (e.g. 1 for polls). Leave empty for no limit.'
+                                },
+                                maxDistinctReactions: {
+                                    description: 'Maximum number of different emojis on the same message. Leave empty for no limit.'
+                                }
+                            }
+                        };
+                    case MediaRule:
+                        return {
+                            properties: {
+                                maxAttachments: {
+                                    description: 'Leave empty for no limit.'
+                                },
+                                maxAttachmentSizeKb: {
+                                    description: 'Maximum size of each attachment in kilobytes. Leave empty for no limit.'
+                                },
+                                allowedExtensions: {
+                                    description: 'Comma separated list of extensions, e.g. png, jpg, gif. Leave empty to allow every file.'
+                                }
+                            }
+                        };
+                    case Exemption:
+                        return {
+                            properties: {
+                                kind: {
+                                    availableValues: exemptionKinds
+                                },
+                                targetId: {
+                                    description: `The role ID, the user ID, or the name of the permission (${permissionNames.join(', ')}).`
+                                },
+                                channelId: {
+                                    description: 'Leave empty to apply the exemption to the whole server.'
+                                }
                             }
                         };
                     case Keyword:
                         return {
                             properties: {
                                 kind: {
-                                    availableValues: [
-                                        { value: 'startswith', label: 'The message has to starts with the text' },
-                                    ]
+                                    availableValues: keywordKinds
+                                },
+                                text: {
+                                    description: 'For the regex kind, a JavaScript regular expression without the surrounding slashes, e.g. ^\\[(WTS|WTB)\\]'
+                                },
+                                caseInsensitive: {
+                                    description: 'Ignore the case of the letters when comparing the message with the text.'
+                                },
+                                fromSheet: {
+                                    description: 'Created by the Google Sheets sync: the rule is removed when its row is removed from the spreadsheet.'
+                                }
+                            }
+                        };
+                    case AdminUser:
+                        return {
+                            properties: {
+                                email: {
+                                    isTitle: true
+                                },
+                                password: {
+                                    type: 'password',
+                                    description: `At least ${minPasswordLength} characters. Leave empty to keep the current password.`,
+                                    isVisible: { list: false, show: false, edit: true, filter: false }
+                                },
+                                passwordHash: {
+                                    isVisible: false
+                                },
+                                role: {
+                                    availableValues: adminRoles,
+                                    description: 'Applied right away. The menus of the account only follow the new role after it logs in again.'
+                                },
+                                serverIds: {
+                                    type: 'reference',
+                                    reference: 'Server',
+                                    isArray: true,
+                                    description: 'Servers the account can see, and edit if it is an editor. Owners have access to every server.'
+                                }
+                            },
+                            actions: {
+                                new: {
+                                    before: async (request: ActionRequest) => prepareAdminUserPayload(request, true)
+                                },
+                                edit: {
+                                    before: async (request: ActionRequest, context: ActionContext) => {
+                                        // an owner can not remove their own access to the accounts
+                                        if (request.payload?.role && request.payload.role !== 'owner' && context.record?.id() === context.currentAdmin?.id) {
+                                            throw new ValidationError({ role: { message: 'You can not change the role of your own account.' } });
+                                        }
+                                        return prepareAdminUserPayload(request, false);
+                                    }
+                                },
+                                delete: {
+                                    isAccessible: (context: ActionContext) => isOwner(context) && context.record?.id() !== context.currentAdmin?.id
+                                },
+                                bulkDelete: { isAccessible: false }
+                            }
+                        };
+                    case WhitelistedStaffRole:
+                        return {
+                            properties: {
+                                fromSheet: {
+                                    description: 'Created by the Google Sheets sync: the rule is removed when its row is removed from the spreadsheet.'
                                 }
                             }
                         };
@@ -336,7 +1738,8 @@ export const initialize = () => {
                 componentLoader: componentLoader,
                 resources: entities.map((entity) => ({
                     resource: entity,
-                    options: getOptions(entity),
+                    // the accounts are only managed by the owners
+                    options: withRoleAccess(getOptions(entity), entity === AdminUser),
                     features: [
                         owningRelationSettingsFeature({
                             componentLoader: componentLoader,
@@ -349,6 +1752,34 @@ export const initialize = () => {
                                         resourceId: 'WhitelistedEmoji',
                                     },
                                 },
+                                Exemptions: {
+                                    type: RelationType.OneToMany,
+                                    target: {
+                                        joinKey: 'serverId',
+                                        resourceId: 'Exemption',
+                                    },
+                                },
+                                ChannelSettings: {
+                                    type: RelationType.OneToMany,
+                                    target: {
+                                        joinKey: 'serverId',
+                                        resourceId: 'ChannelSettings',
+                                    },
+                                },
+                                MediaRules: {
+                                    type: RelationType.OneToMany,
+                                    target: {
+                                        joinKey: 'serverId',
+                                        resourceId: 'MediaRule',
+                                    },
+                                },
+                                ReactionPolicies: {
+                                    type: RelationType.OneToMany,
+                                    target: {
+                                        joinKey: 'serverId',
+                                        resourceId: 'ReactionPolicy',
+                                    },
+                                },
                                 Keywords: {
                                     type: RelationType.OneToMany,
                                     target: {
@@ -363,6 +1794,41 @@ export const initialize = () => {
                                         resourceId: 'RecurringMessage',
                                     },
                                 },
+                                ScheduledMessages: {
+                                    type: RelationType.OneToMany,
+                                    target: {
+                                        joinKey: 'serverId',
+                                        resourceId: 'ScheduledMessage',
+                                    },
+                                },
+                                DeliveryAttempts: {
+                                    type: RelationType.OneToMany,
+                                    target: {
+                                        joinKey: 'serverId',
+                                        resourceId: 'DeliveryAttempt',
+                                    },
+                                },
+                                ModerationActions: {
+                                    type: RelationType.OneToMany,
+                                    target: {
+                                        joinKey: 'serverId',
+                                        resourceId: 'ModerationAction',
+                                    },
+                                },
+                                StrikeThresholds: {
+                                    type: RelationType.OneToMany,
+                                    target: {
+                                        joinKey: 'serverId',
+                                        resourceId: 'StrikeThreshold',
+                                    },
+                                },
+                                ConfigSnapshots: {
+                                    type: RelationType.OneToMany,
+                                    target: {
+                                        joinKey: 'serverId',
+                                        resourceId: 'ConfigSnapshot',
+                                    },
+                                },
                             }
                         })
                     ]
@@ -378,12 +1844,7 @@ export const initialize = () => {
             await AdminJSFastify.buildAuthenticatedRouter(admin, {
                 cookiePassword: process.env.ADMINJS_COOKIE_HASH!,
                 cookieName: 'adminjs',
-                authenticate: async (_email, password) => {
-                    if (_email) return false;
-                    if (password === process.env.ADMINJS_PASSWORD!) {
-                        return true;
-                    }
-                }
+                authenticate: authenticateAdmin
             }, app);
             app.listen({
                 host: '0.0.0.0',
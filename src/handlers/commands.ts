@@ -3,6 +3,7 @@ import { join } from "node:path";
 import {
 	ApplicationCommand,
 	type ApplicationCommandData,
+	type AutocompleteInteraction,
 	type ChatInputApplicationCommandData,
 	type Client,
 	Collection,
@@ -79,12 +80,15 @@ export const synchronizeSlashCommands = async (
 
 export type SlashCommandRunFunction = (interaction: CommandInteraction, commandName: string) => void;
 
+export type SlashCommandAutocompleteFunction = (interaction: AutocompleteInteraction, commandName: string) => void;
+
 export type MessageCommandRunFunction = (message: Message, commandName: string) => void;
 
 export type ContextMenuRunFunction = (interaction: ContextMenuCommandInteraction, contextMenuName: string) => void;
 
 export const loadSlashCommands = async (client: Client) => {
 	const commands = new Collection<string, SlashCommandRunFunction>();
+	const autocompletes = new Collection<string, SlashCommandAutocompleteFunction>();
 	const commandsData: ChatInputApplicationCommandData[] = [];
 
 	try {
@@ -99,6 +103,7 @@ export const loadSlashCommands = async (client: Client) => {
 					commandsData.push(...command.commands);
 					command.commands.forEach((commandData: ChatInputApplicationCommandData) => {
 						commands.set(commandData.name, command.run);
+						if (command.autocomplete) autocompletes.set(commandData.name, command.autocomplete);
 						console.log(`Loaded slash command ${commandData.name}`);
 					});
 				}
@@ -111,6 +116,7 @@ export const loadSlashCommands = async (client: Client) => {
 
 	return {
 		slashCommands: commands,
+		slashCommandsAutocomplete: autocompletes,
 		slashCommandsData: commandsData,
 	};
 };
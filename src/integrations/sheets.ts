@@ -1,9 +1,17 @@
 import { google } from 'googleapis';
 import { parse } from 'date-format-parse';
-import { join } from 'path';
+import { join } from 'node:path';
 
-import { fileURLToPath } from 'url';
-import { dirname } from 'path';
+import { fileURLToPath } from 'node:url';
+import { dirname } from 'node:path';
+
+import { validate } from 'class-validator';
+import type { Client, Guild } from 'discord.js';
+import type { BaseEntity } from 'typeorm';
+import { BlacklistedEmoji, getPostgres, Keyword, Server, WhitelistedEmoji, WhitelistedStaffRole } from '../database.js';
+import { resolveEmojiInput } from '../restrictions/emojis.js';
+import { isKeywordKind, keywordKinds } from '../restrictions/keywords.js';
+import { resolveChannelInput, resolveRoleInput } from '../util.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -25,27 +33,280 @@ export let parameters: ParameterData[] = [];
 export const getParameters = () => parameters;
 
 export const syncSheets = () => {
-    return new Promise((resolve) => {
+    return new Promise<ParameterData[]>((resolve) => {
         google.sheets('v4').spreadsheets.get({
             spreadsheetId: process.env.SPREADSHEET_ID,
             auth,
             includeGridData: true
         }).then((res) => {
-            const parameterData = res.data.sheets![0]!.data![0].rowData;
+            // the parameters are in the first tab that is not a rule tab
+            const sheet = res.data.sheets?.find(sheet => !findTab(sheet.properties?.title));
+            const parameterData = sheet?.data?.[0]?.rowData ?? [];
             const newParameters: ParameterData[] = [];
-            for (let i = 1; i < parameterData!.length; i++) {
-                const row = parameterData![i].values!;
-                const key = row[0].formattedValue!;
+            for (let i = 1; i < parameterData.length; i++) {
+                const row = parameterData[i].values ?? [];
+                const key = row[0]?.formattedValue;
                 if (!key) continue;
-                const value = row[1].formattedValue!;
+                const value = row[1]?.formattedValue ?? '';
                 newParameters.push({
                     key,
                     value
                 });
             }
-            const data = { newParameters };
-            console.log(data);
-            resolve(data);
+            parameters = newParameters;
+            console.log(`Loaded ${parameters.length} parameters from the spreadsheet`);
+            resolve(parameters);
+        }).catch((e) => {
+            console.error('Could not load the parameters from the spreadsheet', e);
+            resolve(parameters);
         });
     });
 };
+
+interface SheetRule extends BaseEntity {
+    id: number;
+    serverId: string;
+    fromSheet: boolean;
+}
+
+interface RuleTab {
+    name: string;
+    // columns of the tab, in order, the first row of the tab is the header
+    columns: string[];
+    // a function, because the entities are not defined yet when this module is loaded
+    entity: () => new () => SheetRule;
+    // the fields compared to know if the rule of a row already exists
+    fields: string[];
+    // returns the values of the rule, or why the row is invalid
+    readRow: (cells: string[], guild: Guild) => Record<string, unknown> | string;
+}
+
+// checkboxes of Google Sheets are read as TRUE and FALSE
+const parseBoolean = (input: string) => {
+    const value = input.toLowerCase();
+    if (['true', 'yes', 'y', 'x', '1'].includes(value)) return true;
+    if (['false', 'no', 'n', '0', ''].includes(value)) return false;
+    return null;
+}
+
+const readEmojiRow = ([emojiInput, channelInput, messageId]: string[], guild: Guild) => {
+    if (!emojiInput) return 'the emoji is missing';
+    const emoji = resolveEmojiInput(emojiInput, guild);
+    if (!emoji) return `${emojiInput} is not an emoji, or not an emoji of this server`;
+    const channel = channelInput ? resolveChannelInput(channelInput, guild) : null;
+    if (channelInput && !channel) return `the channel ${channelInput} does not exist`;
+    if (messageId && !/^\d{17,20}$/.test(messageId)) return `${messageId} is not a message ID`;
+    return { emojiUnicodeOrId: emoji, channelId: channel?.id ?? null, messageId: messageId || null };
+}
+
+const ruleTabs: RuleTab[] = [
+    {
+        name: 'Channel keywords',
+        columns: ['Channel', 'Kind', 'Text', 'Case insensitive'],
+        entity: () => Keyword,
+        fields: ['channelId', 'kind', 'text', 'caseInsensitive'],
+        readRow: ([channelInput, kindInput, text, caseInsensitiveInput], guild) => {
+            if (!channelInput) return 'the channel is missing';
+            const channel = resolveChannelInput(channelInput, guild);
+            if (!channel) return `the channel ${channelInput} does not exist`;
+            const kind = kindInput.toLowerCase() || 'startswith';
+            if (!isKeywordKind(kind)) return `the kind has to be one of ${keywordKinds.map(k => k.value).join(', ')}`;
+            if (!text) return 'the text is missing';
+            const caseInsensitive = parseBoolean(caseInsensitiveInput);
+            if (caseInsensitive === null) return 'the case insensitive column has to be yes or no';
+            return { channelId: channel.id, kind, text, caseInsensitive };
+        }
+    },
+    {
+        name: 'Allowed emojis',
+        columns: ['Emoji', 'Channel', 'Message ID'],
+        entity: () => WhitelistedEmoji,
+        fields: ['emojiUnicodeOrId', 'channelId', 'messageId'],
+        readRow: readEmojiRow
+    },
+    {
+        name: 'Blocked emojis',
+        columns: ['Emoji', 'Channel', 'Message ID'],
+        entity: () => BlacklistedEmoji,
+        fields: ['emojiUnicodeOrId', 'channelId', 'messageId'],
+        readRow: readEmojiRow
+    },
+    {
+        name: 'Staff roles',
+        columns: ['Role'],
+        entity: () => WhitelistedStaffRole,
+        fields: ['roleId'],
+        readRow: ([roleInput], guild) => {
+            if (!roleInput) return 'the role is missing';
+            const role = resolveRoleInput(roleInput, guild);
+            if (!role) return `the role ${roleInput} does not exist`;
+            return { roleId: role.id };
+        }
+    }
+];
+
+export const ruleTabNames = ruleTabs.map(tab => tab.name);
+
+const findTab = (title: string | null | undefined) => ruleTabNames.find(name => name.toLowerCase() === title?.trim().toLowerCase());
+
+export interface RuleTabReport {
+    tab: string;
+    added: number;
+    removed: number;
+    rejected: { row: number, error: string }[];
+    // set when the tab was not synced at all, its rules are left unchanged
+    error: string | null;
+}
+
+export interface SheetSyncResult {
+    syncedAt: Date;
+    // set when the spreadsheet could not be read
+    error: string | null;
+    tabs: RuleTabReport[];
+}
+
+/**
+ * Reads the spreadsheet ID from the link of the spreadsheet, or returns the input if it is already an ID.
+ */
+export const getSpreadsheetId = (input: string) => input.match(/\/spreadsheets\/d\/([\w-]+)/)?.[1] ?? input.trim();
+
+const getKey = (tab: RuleTab, values: object) => JSON.stringify(tab.fields.map(field => (values as Record<string, unknown>)[field] ?? null));
+
+/**
+ * Makes the rules created from a tab match its rows: the rules of the removed rows are removed, the new rows are added.
+ * The rules created in Discord or in the dashboard are never changed.
+ */
+const syncRuleTab = async (tab: RuleTab, rows: string[][], server: Server, guild: Guild): Promise<RuleTabReport> => {
+    const report: RuleTabReport = { tab: tab.name, added: 0, removed: 0, rejected: [], error: null };
+    const entity = tab.entity();
+    const repository = (await getPostgres).getRepository(entity);
+    const serverId = server.id.toString();
+
+    // first row of each rule, by key
+    const sheetRules = new Map<string, { row: number, rule: SheetRule }>();
+    for (const [index, cells] of rows.entries()) {
+        // the first row is the header
+        const row = index + 2;
+        if (cells.every(cell => !cell)) continue;
+
+        const values = tab.readRow(cells, guild);
+        if (typeof values === 'string') {
+            report.rejected.push({ row, error: values });
+            continue;
+        }
+        const rule = Object.assign(new entity(), values, { serverId, fromSheet: true });
+        const errors = await validate(rule, { skipMissingProperties: true });
+        if (errors.length) {
+            report.rejected.push({ row, error: errors.flatMap(error => Object.values(error.constraints ?? {})).join(' ') });
+            continue;
+        }
+        const key = getKey(tab, values);
+        const duplicate = sheetRules.get(key);
+        if (duplicate) {
+            report.rejected.push({ row, error: `same rule as the row ${duplicate.row}` });
+            continue;
+        }
+        sheetRules.set(key, { row, rule });
+    }
+
+    const existingRules = await repository.find({ where: { serverId } });
+    const existingKeys = new Set<string>();
+    const removedRules: SheetRule[] = [];
+    for (const rule of existingRules) {
+        const key = getKey(tab, rule);
+        if (rule.fromSheet && (!sheetRules.has(key) || existingKeys.has(key))) {
+            removedRules.push(rule);
+            continue;
+        }
+        // a rule that already exists in the dashboard is not added again
+        existingKeys.add(key);
+    }
+    const addedRules = [...sheetRules.entries()].filter(([key]) => !existingKeys.has(key)).map(([, { rule }]) => rule);
+
+    // the hooks of the entities update the cache of the rules
+    await repository.remove(removedRules);
+    await repository.save(addedRules);
+    report.added = addedRules.length;
+    report.removed = removedRules.length;
+    return report;
+}
+
+/**
+ * Syncs the rule tabs of the spreadsheet of the server into its rules, one-way. Tabs missing from the spreadsheet are ignored.
+ * The result is also stored on the server, to be shown in the dashboard.
+ */
+export const syncServerSheet = async (client: Client, server: Server): Promise<SheetSyncResult> => {
+    const result: SheetSyncResult = { syncedAt: new Date(), error: null, tabs: [] };
+    const guild = client.guilds.cache.get(server.serverId);
+
+    if (!server.spreadsheetId) {
+        result.error = 'No spreadsheet is linked to this server.';
+    } else if (!guild) {
+        result.error = 'The bot is not in this server anymore.';
+    } else {
+        try {
+            const res = await google.sheets('v4').spreadsheets.get({
+                spreadsheetId: getSpreadsheetId(server.spreadsheetId),
+                auth,
+                includeGridData: true
+            });
+            for (const tab of ruleTabs) {
+                const sheet = res.data.sheets?.find(sheet => findTab(sheet.properties?.title) === tab.name);
+                if (!sheet) {
+                    result.tabs.push({ tab: tab.name, added: 0, removed: 0, rejected: [], error: `there is no "${tab.name}" tab, its rules were left unchanged` });
+                    continue;
+                }
+                const rows = (sheet.data?.[0]?.rowData ?? []).slice(1)
+                    .map(row => tab.columns.map((_, i) => row.values?.[i]?.formattedValue?.trim() ?? ''));
+                result.tabs.push(await syncRuleTab(tab, rows, server, guild));
+            }
+        } catch (e) {
+            result.error = `The spreadsheet could not be read (${e instanceof Error ? e.message : e}). Check its ID and that it is shared with the service account of the bot.`;
+        }
+    }
+
+    await (await getPostgres).getRepository(Server).update(server.id, {
+        lastSheetSyncAt: result.syncedAt,
+        lastSheetSyncReport: describeSheetSync(result)
+    });
+    return result;
+}
+
+/**
+ * Returns the lines of the report of the sync, with the errors of every rejected row.
+ */
+export const describeSheetSync = (result: SheetSyncResult) => {
+    if (result.error) return result.error;
+    return result.tabs.map(report => {
+        if (report.error) return `${report.tab}: ${report.error}`;
+        const summary = `${report.tab}: ${report.added} added, ${report.removed} removed, ${report.rejected.length} rejected`;
+        return [summary, ...report.rejected.map(({ row, error }) => `  row ${row}: ${error}`)].join('\n');
+    }).join('\n');
+}
+
+// servers being synced, so a scheduled sync and /sheets sync do not add the same rules twice
+const pendingSyncs = new Set<number>();
+
+export const isSheetSyncPending = (server: Server) => pendingSyncs.has(server.id);
+
+export const runServerSheetSync = async (client: Client, server: Server) => {
+    pendingSyncs.add(server.id);
+    try {
+        return await syncServerSheet(client, server);
+    } finally {
+        pendingSyncs.delete(server.id);
+    }
+}
+
+export const sheetSyncIntervalMinutes = 15;
+
+/**
+ * Syncs the spreadsheet of every server that has one, called every sheetSyncIntervalMinutes.
+ */
+export const syncAllServerSheets = async (client: Client) => {
+    const servers = await (await getPostgres).getRepository(Server).find({});
+    for (const server of servers) {
+        if (!server.spreadsheetId || isSheetSyncPending(server)) continue;
+        await runServerSheetSync(client, server).catch((e) => console.error(`Could not sync the spreadsheet of server ${server.id}`, e));
+    }
+}
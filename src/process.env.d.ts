@@ -19,6 +19,8 @@ declare namespace NodeJS {
 
         SPREADSHEET_ID: string|undefined;
 
+        CONFIG_FILE: string|undefined;
+
         ENVIRONMENT: string;
 
         ADMINJS_PORT: number|undefined;
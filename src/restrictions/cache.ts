@@ -0,0 +1,100 @@
+import { BlacklistedEmoji, ChannelSettings, Exemption, getPostgres, Keyword, MediaRule, ReactionPolicy, Server, WhitelistedEmoji, WhitelistedStaffRole } from "../database.js";
+
+export interface RestrictionConfig {
+    server: Server;
+    keywords: Keyword[];
+    whitelistedEmojis: WhitelistedEmoji[];
+    blacklistedEmojis: BlacklistedEmoji[];
+    staffRoles: WhitelistedStaffRole[];
+    exemptions: Exemption[];
+    channelSettings: ChannelSettings[];
+    mediaRules: MediaRule[];
+    reactionPolicies: ReactionPolicy[];
+}
+
+interface RestrictionRule {
+    id: number;
+    serverId: string;
+}
+
+// restriction configs, by guild id
+const configs = new Map<string, RestrictionConfig>();
+
+export const getRestrictionConfig = (guildId: string) => configs.get(guildId);
+
+const findConfig = (serverId: string) => [...configs.values()].find(config => config.server.id.toString() === serverId);
+
+const getRules = (config: RestrictionConfig, rule: RestrictionRule): RestrictionRule[] => {
+    if (rule instanceof Keyword) return config.keywords;
+    if (rule instanceof WhitelistedEmoji) return config.whitelistedEmojis;
+    if (rule instanceof BlacklistedEmoji) return config.blacklistedEmojis;
+    if (rule instanceof WhitelistedStaffRole) return config.staffRoles;
+    if (rule instanceof ChannelSettings) return config.channelSettings;
+    if (rule instanceof MediaRule) return config.mediaRules;
+    if (rule instanceof ReactionPolicy) return config.reactionPolicies;
+    return config.exemptions;
+}
+
+/**
+ * Loads the restriction config of every server.
+ */
+export const loadRestrictionConfigs = async () => {
+    const postgres = await getPostgres;
+    const servers = await postgres.getRepository(Server).find({});
+    const keywords = await postgres.getRepository(Keyword).find({});
+    const whitelistedEmojis = await postgres.getRepository(WhitelistedEmoji).find({});
+    const blacklistedEmojis = await postgres.getRepository(BlacklistedEmoji).find({});
+    const staffRoles = await postgres.getRepository(WhitelistedStaffRole).find({});
+    const exemptions = await postgres.getRepository(Exemption).find({});
+    const channelSettings = await postgres.getRepository(ChannelSettings).find({});
+    const mediaRules = await postgres.getRepository(MediaRule).find({});
+    const reactionPolicies = await postgres.getRepository(ReactionPolicy).find({});
+
+    configs.clear();
+    for (const server of servers) {
+        const ownedBy = (rule: { serverId: string }) => rule.serverId === server.id.toString();
+        configs.set(server.serverId, {
+            server,
+            keywords: keywords.filter(ownedBy),
+            whitelistedEmojis: whitelistedEmojis.filter(ownedBy),
+            blacklistedEmojis: blacklistedEmojis.filter(ownedBy),
+            staffRoles: staffRoles.filter(ownedBy),
+            exemptions: exemptions.filter(ownedBy),
+            channelSettings: channelSettings.filter(ownedBy),
+            mediaRules: mediaRules.filter(ownedBy),
+            reactionPolicies: reactionPolicies.filter(ownedBy)
+        });
+    }
+
+    console.log(`Loaded the restriction config of ${configs.size} servers`);
+}
+
+/**
+ * Called by the entity hooks: the entity is copied in the cache instead of querying the database again,
+ * because the hooks run before the transaction is committed.
+ */
+export const cacheServer = (server: Server) => {
+    const config = configs.get(server.serverId) ?? findConfig(server.id.toString());
+    if (config) {
+        configs.delete(config.server.serverId);
+        config.server = server;
+        configs.set(server.serverId, config);
+    } else {
+        configs.set(server.serverId, { server, keywords: [], whitelistedEmojis: [], blacklistedEmojis: [], staffRoles: [], exemptions: [], channelSettings: [], mediaRules: [], reactionPolicies: [] });
+    }
+}
+
+export const uncacheRule = (rule: RestrictionRule) => {
+    // the rule may have been moved to another server, so it is looked up everywhere
+    for (const config of configs.values()) {
+        const rules = getRules(config, rule);
+        const index = rules.findIndex(r => r.id === rule.id);
+        if (index !== -1) rules.splice(index, 1);
+    }
+}
+
+export const cacheRule = (rule: RestrictionRule) => {
+    uncacheRule(rule);
+    const config = findConfig(rule.serverId);
+    if (config) getRules(config, rule).push(rule);
+}
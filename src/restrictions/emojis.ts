@@ -0,0 +1,30 @@
+import { type Guild, parseEmoji } from "discord.js";
+
+/**
+ * Returns the identifier emoji rules are stored with: the unicode character, or <:name:id> for custom emojis (animated or not).
+ */
+export const getEmojiIdentifier = (emoji: { id: string | null, name: string | null }) => {
+    return emoji.id ? `<:${emoji.name}:${emoji.id}>` : emoji.name;
+}
+
+// exactly one emoji: a pictograph with its variation selector, skin tone, ZWJ sequence and tags, a flag or a keycap
+const unicodeEmojiRegex = /^(\p{Extended_Pictographic}[\u{FE0F}\p{Emoji_Modifier}]?(\u{200D}\p{Extended_Pictographic}[\u{FE0F}\p{Emoji_Modifier}]?)*[\u{E0020}-\u{E007F}]*|\p{Regional_Indicator}{2}|[#*0-9]\u{FE0F}?\u{20E3})$/u;
+
+/**
+ * Reads an emoji typed by a user: a unicode emoji, a custom emoji (<:name:id>, <a:name:id>), or the name or id of an emoji of the guild.
+ * Returns null if the input is not an emoji.
+ */
+export const resolveEmojiInput = (input: string, guild: Guild) => {
+    const value = input.trim();
+
+    const guildEmoji = guild.emojis.cache.get(value)
+        ?? guild.emojis.cache.find(emoji => emoji.name === value.replace(/^:|:$/g, ''));
+    if (guildEmoji) return getEmojiIdentifier(guildEmoji);
+
+    const parsed = parseEmoji(value);
+    if (parsed?.id && parsed.name) return getEmojiIdentifier({ id: parsed.id, name: parsed.name });
+
+    if (unicodeEmojiRegex.test(value)) return value;
+
+    return null;
+}
@@ -0,0 +1,75 @@
+import { type GuildMember, PermissionFlagsBits } from "discord.js";
+import { type ValidationArguments, ValidatorConstraint, type ValidatorConstraintInterface } from "class-validator";
+
+export type ExemptionKind = 'role' | 'user' | 'permission';
+
+export interface ExemptionRule {
+    kind: ExemptionKind;
+    targetId: string;
+    channelId: string | null;
+}
+
+export const exemptionKinds: { value: ExemptionKind, label: string }[] = [
+    { value: 'role', label: 'Members with the role' },
+    { value: 'user', label: 'A single member' },
+    { value: 'permission', label: 'Members with the permission' },
+];
+
+export const permissionNames = Object.keys(PermissionFlagsBits) as (keyof typeof PermissionFlagsBits)[];
+
+const isPermissionName = (name: string): name is keyof typeof PermissionFlagsBits => permissionNames.includes(name as keyof typeof PermissionFlagsBits);
+
+/**
+ * Returns why the member is exempted from the restrictions of the channel, or null if they are not.
+ * Exemptions without a channel apply to the whole server, and staff roles are server-wide role exemptions.
+ */
+export const getExemptionReason = (member: GuildMember, channelId: string, exemptions: ExemptionRule[], staffRoleIds: string[] = []) => {
+    const staffRole = member.roles.cache.find(role => staffRoleIds.includes(role.id));
+    if (staffRole) return `staff role <@&${staffRole.id}>`;
+
+    const exemption = exemptions
+        .filter(exemption => !exemption.channelId || exemption.channelId === channelId)
+        .find(exemption => {
+            switch (exemption.kind) {
+                case 'role':
+                    return member.roles.cache.has(exemption.targetId);
+                case 'user':
+                    return member.id === exemption.targetId;
+                case 'permission':
+                    return isPermissionName(exemption.targetId) && member.permissionsIn(channelId).has(PermissionFlagsBits[exemption.targetId]);
+                default:
+                    return false;
+            }
+        });
+    if (!exemption) return null;
+
+    const place = exemption.channelId ? `in <#${exemption.channelId}>` : 'in the whole server';
+    switch (exemption.kind) {
+        case 'role':
+            return `exemption of the role <@&${exemption.targetId}> ${place}`;
+        case 'user':
+            return `exemption of the member ${place}`;
+        default:
+            return `exemption of the ${exemption.targetId} permission ${place}`;
+    }
+}
+
+/**
+ * Whether the member is exempted from the restrictions of the channel.
+ */
+export const isExempt = (member: GuildMember, channelId: string, exemptions: ExemptionRule[], staffRoleIds: string[] = []) => {
+    return getExemptionReason(member, channelId, exemptions, staffRoleIds) !== null;
+}
+
+@ValidatorConstraint({ name: 'exemptionTarget' })
+export class ExemptionTargetConstraint implements ValidatorConstraintInterface {
+    validate(targetId: string, args: ValidationArguments) {
+        const { kind } = args.object as ExemptionRule;
+        return kind === 'permission' ? isPermissionName(targetId) : /^\d{17,20}$/.test(targetId);
+    }
+
+    defaultMessage(args: ValidationArguments) {
+        const { kind } = args.object as ExemptionRule;
+        return kind === 'permission' ? 'Unknown permission.' : `This is not a valid ${kind} ID.`;
+    }
+}
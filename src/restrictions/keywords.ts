@@ -0,0 +1,145 @@
+import { type ValidationArguments, ValidatorConstraint, type ValidatorConstraintInterface } from "class-validator";
+
+export type KeywordKind = 'startswith' | 'contains' | 'endswith' | 'exact' | 'regex';
+
+export interface KeywordRule {
+    kind: KeywordKind;
+    text: string;
+    caseInsensitive: boolean;
+}
+
+export const keywordKinds: { value: KeywordKind, label: string }[] = [
+    { value: 'startswith', label: 'The message has to start with the text' },
+    { value: 'contains', label: 'The message has to contain the text' },
+    { value: 'endswith', label: 'The message has to end with the text' },
+    { value: 'exact', label: 'The message has to be exactly the text' },
+    { value: 'regex', label: 'The message has to match the regular expression' },
+];
+
+const kindDescriptions: Record<KeywordKind, string> = {
+    startswith: 'start with',
+    contains: 'contain',
+    endswith: 'end with',
+    exact: 'be exactly',
+    regex: 'match the pattern',
+};
+
+export const isKeywordKind = (kind: string): kind is KeywordKind => keywordKinds.some(k => k.value === kind);
+
+/**
+ * Returns a human readable description of the rule, e.g. "start with `WTS` (case-insensitive)".
+ */
+export const describeKeyword = (keyword: KeywordRule) => {
+    const description = `${kindDescriptions[keyword.kind] ?? kindDescriptions.startswith} \`${keyword.text}\``;
+    return keyword.caseInsensitive ? `${description} (case-insensitive)` : description;
+}
+
+/**
+ * Returns why the pattern could take exponential time to test, e.g. ^(a+)+$, or null if it is safe enough.
+ * Backreferences and quantified groups containing a quantifier are rejected.
+ */
+export const getUnsafePatternError = (pattern: string) => {
+    if (/\\([1-9]|k<)/.test(pattern)) return 'Backreferences are not allowed, they can make the pattern too slow to test.';
+
+    // whether each open group contains a quantifier
+    const groups: boolean[] = [];
+    let inClass = false;
+    let closedGroupHasQuantifier = false;
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        const isQuantifier = !inClass && (char === '*' || char === '+' || (char === '{' && /^\{\d+(,\d*)?\}/.test(pattern.slice(i))));
+        if (isQuantifier && closedGroupHasQuantifier) {
+            return 'Nested quantifiers such as (a+)+ are not allowed, they can make the pattern too slow to test.';
+        }
+        closedGroupHasQuantifier = false;
+
+        if (char === '\\') {
+            i++;
+        } else if (inClass) {
+            if (char === ']') inClass = false;
+        } else if (char === '[') {
+            inClass = true;
+        } else if (char === '(') {
+            groups.push(false);
+        } else if (char === ')') {
+            closedGroupHasQuantifier = groups.pop() ?? false;
+            // the quantifiers of the group are also in its parent group
+            if (closedGroupHasQuantifier && groups.length) groups[groups.length - 1] = true;
+        } else if (isQuantifier && groups.length) {
+            groups[groups.length - 1] = true;
+        }
+    }
+    return null;
+}
+
+const compiledPatterns = new Map<string, RegExp | null>();
+
+const compilePattern = (pattern: string, caseInsensitive: boolean) => {
+    const cacheKey = `${caseInsensitive ? 'i' : ''}/${pattern}`;
+    if (!compiledPatterns.has(cacheKey)) {
+        // rules saved before the check was added are never run
+        const unsafeError = getUnsafePatternError(pattern);
+        if (unsafeError) {
+            console.error(`The keyword pattern ${pattern} is ignored: ${unsafeError}`);
+            compiledPatterns.set(cacheKey, null);
+            return null;
+        }
+        try {
+            compiledPatterns.set(cacheKey, new RegExp(pattern, caseInsensitive ? 'i' : ''));
+        } catch {
+            compiledPatterns.set(cacheKey, null);
+        }
+    }
+    return compiledPatterns.get(cacheKey) ?? null;
+}
+
+/**
+ * Returns why the rule can not be saved, or null if it is valid.
+ */
+export const getKeywordError = (kind: string, text: string) => {
+    if (!isKeywordKind(kind)) return `Unknown keyword kind "${kind}".`;
+    if (!text) return 'The text can not be empty.';
+    if (kind === 'regex') {
+        try {
+            new RegExp(text);
+        } catch (e) {
+            return `Invalid regular expression: ${(e as Error).message}`;
+        }
+        return getUnsafePatternError(text);
+    }
+    return null;
+}
+
+export const matchesKeyword = (keyword: KeywordRule, content: string) => {
+    if (keyword.kind === 'regex') {
+        // patterns are validated when they are saved, but a bad one must never crash the handler
+        return compilePattern(keyword.text, keyword.caseInsensitive)?.test(content) ?? false;
+    }
+
+    const text = keyword.caseInsensitive ? keyword.text.toLowerCase() : keyword.text;
+    const value = keyword.caseInsensitive ? content.toLowerCase() : content;
+
+    switch (keyword.kind) {
+        case 'contains':
+            return value.includes(text);
+        case 'endswith':
+            return value.endsWith(text);
+        case 'exact':
+            return value === text;
+        default:
+            return value.startsWith(text);
+    }
+}
+
+@ValidatorConstraint({ name: 'keywordPattern' })
+export class KeywordPatternConstraint implements ValidatorConstraintInterface {
+    validate(text: string, args: ValidationArguments) {
+        const { kind } = args.object as KeywordRule;
+        return getKeywordError(kind ?? 'startswith', text) === null;
+    }
+
+    defaultMessage(args: ValidationArguments) {
+        const { kind } = args.object as KeywordRule;
+        return getKeywordError(kind ?? 'startswith', args.value) ?? 'Invalid keyword.';
+    }
+}
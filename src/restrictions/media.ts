@@ -0,0 +1,58 @@
+import type { Attachment } from "discord.js";
+
+export interface MediaRequirements {
+    requireMedia: boolean;
+    forbidAttachments: boolean;
+    maxAttachments: number | null;
+    maxAttachmentSizeKb: number | null;
+    allowedExtensions: string | null;
+}
+
+const isMedia = (attachment: Attachment) => /^(image|video)\//.test(attachment.contentType ?? '');
+
+const getExtension = (attachment: Attachment) => attachment.name.includes('.') ? attachment.name.split('.').pop()?.toLowerCase() ?? '' : '';
+
+/**
+ * Parses the comma separated list of extensions, e.g. "png, .jpg,GIF" gives ["png", "jpg", "gif"].
+ */
+export const parseExtensions = (extensions: string | null) => {
+    return (extensions ?? '').split(',').map(e => e.trim().replace(/^\./, '').toLowerCase()).filter(e => e);
+}
+
+/**
+ * Returns the human readable requirements, e.g. "contain at least one image or video".
+ */
+export const describeMediaRequirements = (rule: MediaRequirements) => {
+    const requirements: string[] = [];
+    if (rule.forbidAttachments) requirements.push('not contain any attachment');
+    if (rule.requireMedia) requirements.push('contain at least one image or video');
+    if (rule.maxAttachments !== null) requirements.push(`contain at most ${rule.maxAttachments} attachment(s)`);
+    if (rule.maxAttachmentSizeKb !== null) requirements.push(`only contain attachments of at most ${rule.maxAttachmentSizeKb} KB`);
+    const extensions = parseExtensions(rule.allowedExtensions);
+    if (extensions.length) requirements.push(`only contain ${extensions.map(e => `.${e}`).join(', ')} files`);
+    return requirements;
+}
+
+/**
+ * Returns the requirements the attachments of a message do not meet.
+ */
+export const getMediaViolations = (rule: MediaRequirements, attachments: Attachment[]) => {
+    const violations: string[] = [];
+    if (rule.forbidAttachments && attachments.length) {
+        violations.push('not contain any attachment');
+    }
+    if (rule.requireMedia && !attachments.some(isMedia)) {
+        violations.push('contain at least one image or video');
+    }
+    if (rule.maxAttachments !== null && attachments.length > rule.maxAttachments) {
+        violations.push(`contain at most ${rule.maxAttachments} attachment(s)`);
+    }
+    if (rule.maxAttachmentSizeKb !== null && attachments.some(a => a.size > (rule.maxAttachmentSizeKb ?? 0) * 1024)) {
+        violations.push(`only contain attachments of at most ${rule.maxAttachmentSizeKb} KB`);
+    }
+    const extensions = parseExtensions(rule.allowedExtensions);
+    if (extensions.length && attachments.some(a => !extensions.includes(getExtension(a)))) {
+        violations.push(`only contain ${extensions.map(e => `.${e}`).join(', ')} files`);
+    }
+    return violations;
+}
@@ -0,0 +1,201 @@
+import { type Attachment, EmbedBuilder, type GuildMember, type Message, type Webhook } from "discord.js";
+import type { Keyword, MediaRule } from "../database.js";
+import { getRestrictionConfig, type RestrictionConfig } from "./cache.js";
+import { getExemptionReason } from "./exemptions.js";
+import { describeKeyword, matchesKeyword } from "./keywords.js";
+import { describeMediaRequirements, getMediaViolations } from "./media.js";
+import { isAuditMode, logModerationAction } from "./moderation.js";
+import { sendViolationNotice } from "./notices.js";
+import { addStrike } from "./strikes.js";
+
+export type EditAction = 'delete' | 'revert' | 'ignore';
+
+export const editActions: { value: EditAction, label: string }[] = [
+    { value: 'delete', label: 'Delete the edited message' },
+    { value: 'revert', label: 'Delete the edited message and repost the original one' },
+    { value: 'ignore', label: 'Do not check edited messages' },
+];
+
+// webhooks used to repost reverted messages, by channel id
+const webhooks = new Map<string, Webhook>();
+
+/**
+ * Reposts the original content of an edited message through a webhook, with the name and avatar of its author.
+ */
+const repostOriginalMessage = async (message: Message<true>, content: string) => {
+    const channel = message.channel.isThread() ? message.channel.parent : message.channel;
+    if (!channel || !('fetchWebhooks' in channel)) return false;
+
+    try {
+        let webhook = webhooks.get(channel.id);
+        if (!webhook) {
+            const existingWebhooks = await channel.fetchWebhooks();
+            webhook = existingWebhooks.find(w => w.owner?.id === message.client.user.id && w.token)
+                ?? await channel.createWebhook({ name: message.client.user.username });
+            webhooks.set(channel.id, webhook);
+        }
+        await webhook.send({
+            content,
+            username: message.member?.displayName ?? message.author.username,
+            avatarURL: message.author.displayAvatarURL(),
+            threadId: message.channel.isThread() ? message.channelId : undefined,
+            allowedMentions: { parse: [] }
+        });
+        return true;
+    } catch (e) {
+        console.error(`Could not repost the original message in ${channel.id}`, e);
+        webhooks.delete(channel.id);
+        return false;
+    }
+}
+
+export interface MessageEvaluation {
+    // why the author is exempted, null if they are not
+    exemption: string | null;
+    keywords: { keyword: Keyword, matches: boolean }[];
+    keywordsBroken: boolean;
+    mediaRule: MediaRule | null;
+    mediaViolations: string[];
+    // the broken rules, empty if the message follows the rules of the channel
+    brokenRules: string[];
+    auditMode: boolean;
+}
+
+/**
+ * Checks a message against the restrictions of a channel, without doing anything.
+ * This is the check used by the enforcement, so the rule tester always gives the same answer.
+ */
+export const evaluateMessage = (restrictionConfig: RestrictionConfig, data: {
+    member: GuildMember | null,
+    channelId: string,
+    content: string,
+    attachments: Attachment[]
+}): MessageEvaluation => {
+    const exemption = data.member
+        ? getExemptionReason(data.member, data.channelId, restrictionConfig.exemptions, restrictionConfig.staffRoles.map(r => r.roleId))
+        : null;
+
+    const keywords = restrictionConfig.keywords
+        .filter(key => key.channelId === data.channelId)
+        .map(keyword => ({ keyword, matches: matchesKeyword(keyword, data.content) }));
+    const keywordsBroken = keywords.length > 0 && keywords.every(key => !key.matches);
+
+    const mediaRule = restrictionConfig.mediaRules.find(rule => rule.channelId === data.channelId) ?? null;
+    const mediaViolations = mediaRule ? getMediaViolations(mediaRule, data.attachments) : [];
+
+    const brokenRules = [
+        ...(keywordsBroken ? [`Must match one of: ${keywords.map(key => describeKeyword(key.keyword)).join(', ')}`] : []),
+        ...(mediaViolations.length ? [`Attachments must ${mediaViolations.join(', ')}`] : [])
+    ];
+
+    return {
+        exemption,
+        keywords,
+        keywordsBroken,
+        mediaRule,
+        mediaViolations,
+        brokenRules,
+        auditMode: isAuditMode(restrictionConfig, data.channelId)
+    };
+}
+
+/**
+ * Checks the message against the restrictions of its channel and removes it if it breaks them.
+ * For edited messages, the original content is given (null when it is unknown because the message was not cached).
+ * Returns whether the message was removed.
+ */
+export const enforceMessageRestrictions = async (message: Message<true>, originalContent?: string | null) => {
+    const restrictionConfig = getRestrictionConfig(message.guildId);
+    if (!restrictionConfig) return false;
+
+    // the member is not cached for the messages fetched after a restart, e.g. when they are edited
+    const member = message.member ?? await message.guild.members.fetch(message.author.id).catch(() => null);
+    if (!member) {
+        console.log(`Skipping the message ${message.id} in ${message.channelId}, its author ${message.author.id} is not a member anymore`);
+        return false;
+    }
+
+    const edited = originalContent !== undefined;
+    const channelSettings = restrictionConfig.channelSettings.find(settings => settings.channelId === message.channelId);
+    const editAction = channelSettings?.editAction ?? 'delete';
+    if (edited && editAction === 'ignore') return false;
+
+    const { exemption, keywords, mediaRule, brokenRules, auditMode } = evaluateMessage(restrictionConfig, {
+        member: member,
+        channelId: message.channelId,
+        content: message.content,
+        attachments: [...message.attachments.values()]
+    });
+    if (exemption || !brokenRules.length) return false;
+
+    const rule = brokenRules.join('. ');
+    const content = [message.content, ...message.attachments.map(a => a.url)].filter(c => c).join('\n');
+
+    // in audit mode, the hit is only reported and the message is kept
+    if (auditMode) {
+        logModerationAction({
+            guild: message.guild,
+            channelId: message.channelId,
+            userId: message.author.id,
+            type: 'messageFlagged',
+            rule: edited ? `${rule} (edited message)` : rule,
+            content
+        });
+        return false;
+    }
+
+    await message.delete().catch(() => {});
+    const reverted = edited && editAction === 'revert' && !!originalContent && await repostOriginalMessage(message, originalContent);
+
+    logModerationAction({
+        guild: message.guild,
+        channelId: message.channelId,
+        userId: message.author.id,
+        type: 'messageDeleted',
+        rule: edited ? `${rule} (edited message${reverted ? ', reverted' : ''})` : rule,
+        content
+    });
+    addStrike(member, rule);
+
+    const rulesList = [
+        ...(keywords.length ? [`Every message in the <#${message.channelId}> channel must match one of these rules:\n\n${keywords.map(key => `- ${describeKeyword(key.keyword)}`).join('\n')}.`] : []),
+        ...(mediaRule ? [`Every message in the <#${message.channelId}> channel must:\n\n${describeMediaRequirements(mediaRule).map(r => `- ${r}`).join('\n')}.`] : [])
+    ];
+    sendViolationNotice({
+        type: 'message',
+        member: member,
+        channel: message.channel,
+        action: reverted ? 'your edit has been reverted' : 'your message has been deleted',
+        rules: rulesList.join('\n\n'),
+        message: message.content
+    }, restrictionConfig.server, channelSettings);
+    return true;
+}
+
+/**
+ * Builds the embed explaining the result of the evaluation, used by the rule tester and the context menu.
+ */
+export const buildEvaluationEmbed = (evaluation: MessageEvaluation, channelId: string) => {
+    const verdict = !evaluation.brokenRules.length
+        ? '✅ The message follows the rules and would be kept.'
+        : evaluation.exemption
+            ? '✅ The message breaks the rules, but would be kept because the author is exempted.'
+            : evaluation.auditMode
+                ? '⚠️ The message breaks the rules and would be reported in the log channel (audit mode).'
+                : '❌ The message breaks the rules and would be deleted.';
+
+    const keywordResults = evaluation.keywords.map(key => `${key.matches ? '✅' : '❌'} ${describeKeyword(key.keyword)}`).join('\n');
+    const mediaResults = evaluation.mediaRule
+        ? describeMediaRequirements(evaluation.mediaRule).map(r => `- ${r}`).join('\n') + (evaluation.mediaViolations.length ? `\n❌ Broken: ${evaluation.mediaViolations.join(', ')}` : '\n✅ Followed')
+        : '';
+
+    return new EmbedBuilder()
+        .setTitle('Rule check')
+        .setDescription(`Rules of <#${channelId}>\n\n${verdict}`)
+        .addFields(
+            { name: 'Keyword rules (at least one has to match)', value: (keywordResults || 'No keyword rule in this channel').slice(0, 1024) },
+            { name: 'Attachment rules', value: (mediaResults || 'No attachment rule in this channel').slice(0, 1024) },
+            { name: 'Author exempted', value: evaluation.exemption ? `Yes, ${evaluation.exemption}` : 'No' }
+        )
+        .setColor(process.env.EMBED_COLOR);
+}
@@ -0,0 +1,77 @@
+import { EmbedBuilder, type Guild } from "discord.js";
+import { findServer, getPostgres, ModerationAction } from "../database.js";
+import type { RestrictionConfig } from "./cache.js";
+
+export type ModerationActionType = 'messageDeleted' | 'reactionRemoved' | 'messageFlagged' | 'reactionFlagged';
+
+export const moderationActionTypes: { value: ModerationActionType, label: string }[] = [
+    { value: 'messageDeleted', label: 'Message deleted' },
+    { value: 'reactionRemoved', label: 'Reaction removed' },
+    { value: 'messageFlagged', label: 'Message breaking the rules (audit mode)' },
+    { value: 'reactionFlagged', label: 'Reaction breaking the rules (audit mode)' },
+];
+
+/**
+ * Returns whether the rules of the channel are only audited. The channel settings override the mode of the server.
+ */
+export const isAuditMode = (restrictionConfig: RestrictionConfig, channelId: string) => {
+    const channelSettings = restrictionConfig.channelSettings.find(settings => settings.channelId === channelId);
+    return channelSettings?.auditMode ?? restrictionConfig.server.auditModeEnabled;
+}
+
+export interface ModerationActionData {
+    guild: Guild;
+    channelId: string;
+    userId: string;
+    type: ModerationActionType;
+    rule: string;
+    content: string;
+}
+
+const truncate = (text: string, length: number) => text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+/**
+ * Stores the action and posts it in the log channel of the server, if one is configured.
+ */
+export const logModerationAction = async (data: ModerationActionData) => {
+    // the handlers do not wait for it, an error here must not stop the bot
+    try {
+        const server = await findServer(data.guild.id);
+        if (!server) return;
+
+        const action = await (await getPostgres).getRepository(ModerationAction).save({
+            serverId: server.id.toString(),
+            channelId: data.channelId,
+            userId: data.userId,
+            type: data.type,
+            rule: data.rule,
+            content: data.content
+        });
+
+        console.log(`Moderation action ${action.id}: ${data.type} for ${data.userId} in ${data.channelId} (${data.rule})`);
+
+        if (!server.logChannelId) return;
+
+        const logChannel = await data.guild.channels.fetch(server.logChannelId).catch(() => null);
+        if (!logChannel?.isTextBased()) return;
+
+        const label = moderationActionTypes.find(t => t.value === data.type)?.label ?? data.type;
+        await logChannel.send({
+            embeds: [
+                new EmbedBuilder()
+                    .setTitle(label)
+                    .addFields(
+                        { name: 'User', value: `<@${data.userId}> (${data.userId})`, inline: true },
+                        { name: 'Channel', value: `<#${data.channelId}>`, inline: true },
+                        { name: 'Rule', value: truncate(data.rule, 1024) },
+                        { name: data.type.startsWith('reaction') ? 'Emoji' : 'Content', value: truncate(data.content, 1024) || '*Empty*' }
+                    )
+                    .setFooter({ text: `Action #${action.id}` })
+                    .setTimestamp()
+                    .setColor(process.env.EMBED_COLOR)
+            ]
+        }).catch((e) => console.error(`Could not post in the log channel of ${data.guild.id}`, e));
+    } catch (e) {
+        console.error(`Could not log the moderation action of ${data.userId} in ${data.guild.id}`, e);
+    }
+}
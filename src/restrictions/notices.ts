@@ -0,0 +1,71 @@
+import type { GuildMember, GuildTextBasedChannel } from "discord.js";
+import type { ChannelSettings, Server } from "../database.js";
+
+export type NoticeType = 'message' | 'reaction';
+
+export const defaultNoticeTemplates: Record<NoticeType, string> = {
+    message: '{username}, {action}. {rules}\n\nOtherwise, the message will be removed.',
+    reaction: '{username}, {action} in {channel}. {rules}',
+};
+
+export const noticePlaceholders = '{user} (mention), {username}, {server}, {channel} (mention), {action} (what happened to the message), {rules} (list of the rules), {message} (original message or emoji)';
+
+export interface NoticeData {
+    type: NoticeType;
+    member: GuildMember;
+    channel: GuildTextBasedChannel;
+    action: string;
+    rules: string;
+    message: string;
+}
+
+/**
+ * Replaces the {placeholders} of the template, unknown placeholders are kept as is.
+ */
+export const renderNotice = (template: string, values: Record<string, string>) => {
+    return template.replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+}
+
+const getNoticeSettings = (type: NoticeType, server: Server, channelSettings?: ChannelSettings) => {
+    if (type === 'reaction') {
+        return {
+            enabled: channelSettings?.reactionNoticeEnabled ?? server.reactionNoticeEnabled,
+            template: channelSettings?.reactionNoticeTemplate || server.reactionNoticeTemplate || defaultNoticeTemplates.reaction
+        };
+    }
+    return {
+        enabled: channelSettings?.messageNoticeEnabled ?? server.messageNoticeEnabled,
+        template: channelSettings?.messageNoticeTemplate || server.messageNoticeTemplate || defaultNoticeTemplates.message
+    };
+}
+
+/**
+ * Tells the member why their message or reaction was removed. When their DMs are closed,
+ * a short message is sent in the channel instead and deleted after the fallback delay of the server.
+ */
+export const sendViolationNotice = async (data: NoticeData, server: Server, channelSettings?: ChannelSettings) => {
+    const { enabled, template } = getNoticeSettings(data.type, server, channelSettings);
+    if (!enabled) return;
+
+    const content = renderNotice(template, {
+        user: `<@${data.member.id}>`,
+        username: data.member.user.username,
+        server: data.member.guild.name,
+        channel: `<#${data.channel.id}>`,
+        action: data.action,
+        rules: data.rules,
+        message: data.message
+    }).slice(0, 2000);
+
+    try {
+        await data.member.send(content);
+    } catch {
+        if (server.noticeFallbackSeconds <= 0) return;
+
+        const fallback = await data.channel.send({
+            content: `<@${data.member.id}>, ${data.action} because it does not follow the rules of this channel. Open your DMs to know why next time.`,
+            allowedMentions: { users: [data.member.id] }
+        }).catch(() => null);
+        setTimeout(() => fallback?.delete().catch(() => {}), server.noticeFallbackSeconds * 1000);
+    }
+}
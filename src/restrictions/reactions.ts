@@ -0,0 +1,182 @@
+import type { MessageReaction, PartialMessageReaction, PartialUser, User } from "discord.js";
+import type { BlacklistedEmoji, ChannelSettings, WhitelistedEmoji } from "../database.js";
+import { getRestrictionConfig, type RestrictionConfig } from "./cache.js";
+import { getEmojiIdentifier } from "./emojis.js";
+import { isExempt } from "./exemptions.js";
+import { isAuditMode, logModerationAction } from "./moderation.js";
+import { sendViolationNotice } from "./notices.js";
+import { addStrike } from "./strikes.js";
+
+export type ReactionMode = 'whitelist' | 'blacklist' | 'off';
+
+export type ReactionScopeType = 'server' | 'channel' | 'message';
+
+export const reactionModes: { value: ReactionMode, label: string }[] = [
+    { value: 'whitelist', label: 'Whitelist: only the allowed emojis are kept' },
+    { value: 'blacklist', label: 'Blacklist: only the forbidden emojis are removed' },
+    { value: 'off', label: 'Off: every reaction is kept' },
+];
+
+interface ScopedRule {
+    channelId: string | null;
+    messageId: string | null;
+}
+
+export interface ReactionRules {
+    scope: ReactionScopeType;
+    mode: ReactionMode;
+    whitelistedEmojis: WhitelistedEmoji[];
+    blacklistedEmojis: BlacklistedEmoji[];
+}
+
+const isInScope = (rule: ScopedRule, scope: ReactionScopeType, channelId: string, messageId: string) => {
+    switch (scope) {
+        case 'message':
+            return rule.messageId === messageId;
+        case 'channel':
+            return !rule.messageId && rule.channelId === channelId;
+        default:
+            return !rule.messageId && !rule.channelId;
+    }
+}
+
+/**
+ * Resolves the reaction rules of a message. The most specific scope having a policy or emoji rules wins
+ * (message, then channel, then server), and its mode falls back to the mode of the broader scopes.
+ */
+export const resolveReactionRules = (restrictionConfig: RestrictionConfig, channelId: string, messageId: string): ReactionRules => {
+    const scopes: ReactionScopeType[] = ['message', 'channel', 'server'];
+    const inScope = (scope: ReactionScopeType) => (rule: ScopedRule) => isInScope(rule, scope, channelId, messageId);
+
+    const scope = scopes.find(scope => scope === 'server'
+        || restrictionConfig.reactionPolicies.some(inScope(scope))
+        || restrictionConfig.whitelistedEmojis.some(inScope(scope))
+        || restrictionConfig.blacklistedEmojis.some(inScope(scope))) ?? 'server';
+
+    const mode = scopes.slice(scopes.indexOf(scope))
+        .map(s => restrictionConfig.reactionPolicies.find(inScope(s))?.mode)
+        .find(m => m) ?? (restrictionConfig.server.blacklistModeEnabled ? 'blacklist' : 'whitelist');
+
+    return {
+        scope,
+        mode,
+        whitelistedEmojis: restrictionConfig.whitelistedEmojis.filter(inScope(scope)),
+        blacklistedEmojis: restrictionConfig.blacklistedEmojis.filter(inScope(scope))
+    };
+}
+
+/**
+ * Returns why the reaction is not allowed with these rules, or null if it is allowed.
+ */
+export const getReactionViolation = (rules: ReactionRules, emoji: string) => {
+    const place = rules.scope === 'server' ? 'this server' : `this ${rules.scope}`;
+    if (rules.mode === 'blacklist' && rules.blacklistedEmojis.some(e => e.emojiUnicodeOrId === emoji)) {
+        return {
+            rule: `Forbidden reaction (blacklist mode, ${rules.scope} rules)`,
+            rulesList: `These reactions are not allowed in ${place}:\n\n${rules.blacklistedEmojis.map(e => `- ${e.emojiUnicodeOrId}`).join('\n')}`
+        };
+    }
+    if (rules.mode === 'whitelist' && !rules.whitelistedEmojis.some(e => e.emojiUnicodeOrId === emoji)) {
+        return {
+            rule: `Reaction not in the allowed list (whitelist mode, ${rules.scope} rules)`,
+            rulesList: `Every reaction in ${place} has to be one of these:\n\n${rules.whitelistedEmojis.map(e => `- ${e.emojiUnicodeOrId}`).join('\n')}`
+        };
+    }
+    return null;
+}
+
+/**
+ * Returns why the reaction goes over the limits of the channel, or null if it does not.
+ */
+export const getReactionLimitViolation = async (channelSettings: ChannelSettings | undefined, reaction: MessageReaction, userId: string) => {
+    const { maxReactionsPerUser, maxDistinctReactions } = channelSettings ?? {};
+    const reactions = [...reaction.message.reactions.cache.values()];
+
+    // a reaction only adds a distinct emoji when the member is the first one to use it
+    if (maxDistinctReactions && reaction.count === 1 && reactions.length > maxDistinctReactions) {
+        return {
+            rule: `More than ${maxDistinctReactions} different emoji(s) on the message`,
+            rulesList: `A message in this channel can not have more than ${maxDistinctReactions} different emoji(s).`
+        };
+    }
+
+    if (maxReactionsPerUser) {
+        let userReactions = 0;
+        for (const r of reactions) {
+            // the users of the other reactions may not be cached
+            const users = r.users.cache.has(userId) || r.count <= r.users.cache.size ? r.users.cache : await r.users.fetch().catch(() => r.users.cache);
+            if (users.has(userId)) userReactions++;
+        }
+        if (userReactions > maxReactionsPerUser) {
+            return {
+                rule: `More than ${maxReactionsPerUser} reaction(s) by the member on the message`,
+                rulesList: `You can not add more than ${maxReactionsPerUser} reaction(s) to a message in this channel.`
+            };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Checks the reaction against the rules of its message and removes it if it is not allowed.
+ */
+export const enforceReactionRestrictions = async (reaction: MessageReaction | PartialMessageReaction, user: User | PartialUser) => {
+    const { message } = reaction;
+    if (!message.guildId || !message.guild) return;
+
+    const restrictionConfig = getRestrictionConfig(message.guildId);
+    if (!restrictionConfig) return;
+
+    const emoji = getEmojiIdentifier(reaction.emoji) ?? '';
+
+    const member = await message.guild.members.fetch(user.id).catch(() => null);
+    if (member && isExempt(member, message.channelId, restrictionConfig.exemptions, restrictionConfig.staffRoles.map(r => r.roleId))) return;
+
+    const channelSettings = restrictionConfig.channelSettings.find(settings => settings.channelId === message.channelId);
+    const hasLimits = !!(channelSettings?.maxReactionsPerUser || channelSettings?.maxDistinctReactions);
+    const fullReaction = hasLimits && reaction.partial ? await reaction.fetch().catch(() => null) : reaction;
+
+    const rules = resolveReactionRules(restrictionConfig, message.channelId, message.id);
+    const violation = getReactionViolation(rules, emoji)
+        ?? (hasLimits && fullReaction && !fullReaction.partial ? await getReactionLimitViolation(channelSettings, fullReaction, user.id) : null);
+    if (!violation) return;
+
+    // in audit mode, the hit is only reported and the reaction is kept
+    if (isAuditMode(restrictionConfig, message.channelId)) {
+        logModerationAction({
+            guild: message.guild,
+            channelId: message.channelId,
+            userId: user.id,
+            type: 'reactionFlagged',
+            rule: violation.rule,
+            content: emoji
+        });
+        return;
+    }
+
+    console.log(`Removing reaction ${emoji} of ${user.id} in ${message.channelId} (${rules.scope} rules, ${rules.mode} mode)`);
+
+    reaction.users.remove(user.id).catch(() => {});
+    logModerationAction({
+        guild: message.guild,
+        channelId: message.channelId,
+        userId: user.id,
+        type: 'reactionRemoved',
+        rule: violation.rule,
+        content: emoji
+    });
+
+    if (!member) return;
+    addStrike(member, violation.rule);
+    if (message.channel.isTextBased() && !message.channel.isDMBased()) {
+        sendViolationNotice({
+            type: 'reaction',
+            member,
+            channel: message.channel,
+            action: 'your reaction has been removed',
+            rules: violation.rulesList,
+            message: emoji
+        }, restrictionConfig.server, channelSettings);
+    }
+}
@@ -0,0 +1,73 @@
+import type { GuildMember } from "discord.js";
+import humanizeDuration from "humanize-duration";
+import { IsNull, MoreThan } from "typeorm";
+import { findServer, getPostgres, Strike, StrikeThreshold } from "../database.js";
+
+export type StrikeAction = 'warn' | 'timeout';
+
+export const strikeActions: { value: StrikeAction, label: string }[] = [
+    { value: 'warn', label: 'Warn the member in DM' },
+    { value: 'timeout', label: 'Timeout the member' },
+];
+
+export const describeThreshold = (threshold: StrikeThreshold) => {
+    return threshold.action === 'timeout'
+        ? `${threshold.strikes} strike(s): timeout for ${humanizeDuration((threshold.timeoutMinutes ?? 0) * 60_000)}`
+        : `${threshold.strikes} strike(s): warning`;
+}
+
+export const getActiveStrikes = async (serverId: number, userId: string) => {
+    const now = new Date();
+    return (await getPostgres).getRepository(Strike).find({
+        where: [
+            { serverId: serverId.toString(), userId, expiresAt: IsNull() },
+            { serverId: serverId.toString(), userId, expiresAt: MoreThan(now) }
+        ],
+        order: {
+            createdAt: 'DESC'
+        }
+    });
+}
+
+/**
+ * Adds a strike to the member and applies the threshold matching the new count of active strikes.
+ * Once the highest threshold is reached, it is applied again for every new strike.
+ */
+export const addStrike = async (member: GuildMember, reason: string) => {
+    // the handlers do not wait for it, an error here must not stop the bot
+    try {
+        const server = await findServer(member.guild.id);
+        if (!server) return;
+
+        const postgres = await getPostgres;
+        await postgres.getRepository(Strike).save({
+            serverId: server.id.toString(),
+            userId: member.id,
+            reason,
+            expiresAt: server.strikeExpirationHours > 0 ? new Date(Date.now() + server.strikeExpirationHours * 60 * 60 * 1000) : null
+        });
+
+        const thresholds = await postgres.getRepository(StrikeThreshold).find({
+            where: { serverId: server.id.toString() },
+            order: { strikes: 'ASC' }
+        });
+        if (!thresholds.length) return;
+
+        const count = (await getActiveStrikes(server.id, member.id)).length;
+        const highest = thresholds[thresholds.length - 1];
+        const threshold = thresholds.find(t => t.strikes === count) ?? (count > highest.strikes ? highest : null);
+        if (!threshold) return;
+
+        console.log(`${member.id} reached ${count} strike(s) in ${member.guild.id}, applying ${threshold.action}`);
+
+        if (threshold.action === 'timeout' && threshold.timeoutMinutes) {
+            const duration = threshold.timeoutMinutes * 60_000;
+            await member.timeout(duration, `${count} strike(s): ${reason}`).catch((e) => console.error(`Could not timeout ${member.id}`, e));
+            member.send(`${member.user.username}, you have received ${count} strike(s) in **${member.guild.name}** for breaking the channel rules, so you have been timed out for ${humanizeDuration(duration)}.`).catch(() => {});
+        } else {
+            member.send(`${member.user.username}, you have received ${count} strike(s) in **${member.guild.name}** for breaking the channel rules. Further violations will lead to a timeout.`).catch(() => {});
+        }
+    } catch (e) {
+        console.error(`Could not add a strike to ${member.id} in ${member.guild.id}`, e);
+    }
+}
@@ -0,0 +1,222 @@
+import { type Client, DiscordAPIError, HTTPError, type Message, RateLimitError, RESTJSONErrorCodes } from "discord.js";
+import { DeliveryAttempt, getPostgres, RecurringMessage, RecurringMessageTask, ScheduledMessage } from "../database.js";
+import { buildMessagePayload, type MessageContent } from "./embeds.js";
+import { defaultTimeZone, getTimeZone, isWithinPeriod } from "./schedule.js";
+import { getTemplateRoleIds, pickVariant, renderTemplate } from "./templates.js";
+
+export type PreviousMessageAction = 'keep' | 'delete' | 'unpin';
+
+export const previousMessageActions: { value: PreviousMessageAction, label: string }[] = [
+    { value: 'keep', label: 'Keep the previous message' },
+    { value: 'delete', label: 'Delete the previous message' },
+    { value: 'unpin', label: 'Unpin the previous message' },
+];
+
+export type DeliveryStatus = 'sent' | 'retrying' | 'failed' | 'missed';
+
+export const deliveryStatuses: { value: DeliveryStatus, label: string }[] = [
+    { value: 'sent', label: 'Sent' },
+    { value: 'retrying', label: 'Failed, retrying' },
+    { value: 'failed', label: 'Failed' },
+    { value: 'missed', label: 'Missed while offline' },
+];
+
+// delays before retrying a temporary failure, the delivery fails once they are exhausted
+const retryDelays = [30_000, 2 * 60_000, 10 * 60_000];
+
+type DeliveryTarget = Pick<DeliveryAttempt, 'serverId' | 'channelId' | 'scheduledFor' | 'taskId' | 'recurringMessageId' | 'scheduledMessageId'>;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// scheduled messages being sent, so a sync happening during the delivery does not send them twice
+const pendingDeliveries = new Set<number>();
+
+/**
+ * Renders the placeholders of the message in the given time zone and sends it.
+ */
+export const sendMessageContent = async (client: Client, content: MessageContent, timeZone = defaultTimeZone) => {
+    const channel = await client.channels.fetch(content.channelId);
+    if (!channel?.isSendable()) {
+        throw new Error(`Channel ${content.channelId} is not a text channel`);
+    }
+    const guild = 'guild' in channel ? channel.guild : null;
+    return channel.send({
+        ...buildMessagePayload(content, text => renderTemplate(text, guild, timeZone)),
+        // @everyone, @here and the roles typed in the text never ping, only the roles of the placeholders do
+        allowedMentions: { parse: ['users'], roles: getTemplateRoleIds(content.text, guild) }
+    });
+}
+
+/**
+ * Applies the post-send behaviors of the recurring message: handles the previous message, pins, publishes and opens a thread.
+ * Every step is independent, so a missing permission for one of them does not prevent the others.
+ */
+const applyPostSendBehaviors = async (recurringMessage: RecurringMessage, message: Message, render: (text: string) => string) => {
+    const logError = (action: string) => (e: unknown) => console.error(`Could not ${action} for the recurring message ${recurringMessage.id}`, e);
+
+    if (recurringMessage.lastMessageId && recurringMessage.previousMessageAction !== 'keep') {
+        const previousMessage = await message.channel.messages.fetch(recurringMessage.lastMessageId).catch(() => null);
+        if (recurringMessage.previousMessageAction === 'delete') {
+            await previousMessage?.delete().catch(logError('delete the previous message'));
+        } else if (previousMessage?.pinned) {
+            await previousMessage.unpin().catch(logError('unpin the previous message'));
+        }
+    }
+
+    if (recurringMessage.pinNewMessage) {
+        await message.pin().catch(logError('pin the message'));
+    }
+    if (recurringMessage.crosspost && message.crosspostable) {
+        await message.crosspost().catch(logError('publish the message'));
+    }
+    if (recurringMessage.threadName && message.inGuild() && !message.channel.isThread()) {
+        const name = render(recurringMessage.threadName).slice(0, 100) || 'Discussion';
+        await message.startThread({ name }).catch(logError('start the thread'));
+    }
+}
+
+/**
+ * Sends the next variant of a recurring message, then applies its post-send behaviors.
+ * The ID of the message is stored, so the previous message can still be found after a restart.
+ */
+const sendRecurringMessage = async (client: Client, recurringMessage: RecurringMessage, timeZone: string) => {
+    const { text, nextVariant } = pickVariant(recurringMessage);
+    const message = await sendMessageContent(client, { ...recurringMessage, text }, timeZone);
+
+    const guild = message.inGuild() ? message.guild : null;
+    await applyPostSendBehaviors(recurringMessage, message, text => renderTemplate(text, guild, timeZone));
+    // the message is already sent, so a failure here must not make the delivery retry and send it again
+    await (await getPostgres).getRepository(RecurringMessage).update(recurringMessage.id, { nextVariant, lastMessageId: message.id })
+        .catch((e) => console.error(`Could not store the sent message of the recurring message ${recurringMessage.id}`, e));
+    return message;
+}
+
+const isChannelGone = (error: unknown) => {
+    return error instanceof DiscordAPIError && error.code === RESTJSONErrorCodes.UnknownChannel;
+}
+
+const networkErrorCodes = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'ENOTFOUND', 'EPIPE'];
+
+// the errors of fetch keep the error of the connection in their cause
+const isNetworkError = (error: unknown): boolean => {
+    if (!(error instanceof Error)) return false;
+    const code = 'code' in error && typeof error.code === 'string' ? error.code : '';
+    return error.name === 'AbortError' || networkErrorCodes.includes(code) || code.startsWith('UND_ERR_') || isNetworkError(error.cause);
+}
+
+/**
+ * Network errors, rate limits and errors of Discord are temporary. Missing permissions, invalid messages
+ * and any other error (e.g. of the database) are not, so a message is never sent twice because of them.
+ */
+const isTemporaryFailure = (error: unknown) => {
+    if (error instanceof DiscordAPIError || error instanceof HTTPError) return error.status >= 500 || error.status === 429;
+    return error instanceof RateLimitError || isNetworkError(error);
+}
+
+const recordAttempt = async (attempt: Partial<DeliveryAttempt>) => {
+    const repository = (await getPostgres).getRepository(DeliveryAttempt);
+    await repository.save(repository.create(attempt)).catch((e) => console.error('Could not record the delivery attempt', e));
+}
+
+/**
+ * Runs the delivery and records every attempt. Temporary failures are retried with an increasing delay.
+ * Returns the sent message, or null if every attempt failed.
+ */
+const runDelivery = async (
+    attempt: DeliveryTarget,
+    send: () => Promise<Message>,
+    onChannelGone: () => Promise<void>
+) => {
+    for (let attemptNumber = 1; ; attemptNumber++) {
+        try {
+            const message = await send();
+            await recordAttempt({ ...attempt, attempt: attemptNumber, status: 'sent', messageId: message.id });
+            return message;
+        } catch (e) {
+            const error = e instanceof Error ? e.message : String(e);
+            if (isChannelGone(e)) {
+                await recordAttempt({ ...attempt, attempt: attemptNumber, status: 'failed', error: `${error} (the channel does not exist anymore)` });
+                await onChannelGone();
+                return null;
+            }
+            const retryDelay = retryDelays[attemptNumber - 1];
+            const retry = isTemporaryFailure(e) && retryDelay !== undefined;
+            await recordAttempt({ ...attempt, attempt: attemptNumber, status: retry ? 'retrying' : 'failed', error });
+            if (!retry) return null;
+            await sleep(retryDelay);
+        }
+    }
+}
+
+/**
+ * Runs a recurring message task, if its message is within its period.
+ * Tasks whose channel was deleted are disabled.
+ */
+export const deliverRecurringTask = async (client: Client, task: RecurringMessageTask, scheduledFor = new Date()) => {
+    const postgres = await getPostgres;
+    const recurringMessage = await postgres.getRepository(RecurringMessage).findOne({ where: { id: task.recurringMessageId } });
+    if (!recurringMessage || !isWithinPeriod(recurringMessage, scheduledFor)) return;
+
+    // the run is marked as done before sending, so it is not caught up again after a restart
+    await postgres.getRepository(RecurringMessageTask).update(task.id, { lastRunAt: scheduledFor });
+
+    const timeZone = getTimeZone(task);
+    await runDelivery({
+        serverId: recurringMessage.serverId,
+        channelId: recurringMessage.channelId,
+        scheduledFor,
+        taskId: task.id,
+        recurringMessageId: recurringMessage.id,
+        scheduledMessageId: null
+    }, async () => {
+        // the message is read again for every attempt, so a fixed message is used by the retries
+        const currentMessage = await postgres.getRepository(RecurringMessage).findOne({ where: { id: recurringMessage.id } }) ?? recurringMessage;
+        return sendRecurringMessage(client, currentMessage, timeZone);
+    }, async () => {
+        console.log(`Disabling the task ${task.id}, the channel ${recurringMessage.channelId} does not exist anymore`);
+        const tasks = await postgres.getRepository(RecurringMessageTask).find({ where: { recurringMessageId: recurringMessage.id, enabled: true } });
+        for (const disabledTask of tasks) {
+            disabledTask.enabled = false;
+            await disabledTask.save();
+        }
+    });
+}
+
+/**
+ * Sends a one-off scheduled message and marks it as sent, unless it was already delivered or cancelled in the meantime.
+ * It is marked as failed if it could not be delivered.
+ */
+export const deliverScheduledMessage = async (client: Client, id: number) => {
+    if (pendingDeliveries.has(id)) return;
+    pendingDeliveries.add(id);
+
+    try {
+        const repository = (await getPostgres).getRepository(ScheduledMessage);
+        const scheduledMessage = await repository.findOne({ where: { id } });
+        if (!scheduledMessage || scheduledMessage.sentAt || scheduledMessage.failedAt) return;
+
+        const message = await runDelivery({
+            serverId: scheduledMessage.serverId,
+            channelId: scheduledMessage.channelId,
+            scheduledFor: scheduledMessage.sendAt,
+            taskId: null,
+            recurringMessageId: null,
+            scheduledMessageId: scheduledMessage.id
+        }, () => sendMessageContent(client, scheduledMessage), async () => {});
+
+        if (message) scheduledMessage.sentAt = new Date();
+        else scheduledMessage.failedAt = new Date();
+        await repository.save(scheduledMessage);
+    } catch (e) {
+        console.error(`Could not deliver the scheduled message ${id}`, e);
+    } finally {
+        pendingDeliveries.delete(id);
+    }
+}
+
+/**
+ * Records a run that was missed while the bot was offline and is too old to be caught up.
+ */
+export const recordMissedRun = (attempt: DeliveryTarget) => {
+    return recordAttempt({ ...attempt, attempt: 0, status: 'missed', error: 'The bot was offline and the run is older than the grace window' });
+}
@@ -0,0 +1,112 @@
+import { type ValidationArguments, ValidatorConstraint, type ValidatorConstraintInterface } from "class-validator";
+import { ActionRowBuilder, type BaseMessageOptions, ButtonBuilder, ButtonStyle, type ColorResolvable, EmbedBuilder } from "discord.js";
+
+export interface EmbedField {
+    name: string;
+    value: string;
+    inline?: boolean;
+}
+
+export interface LinkButton {
+    label: string;
+    url: string;
+}
+
+export interface EmbedContent {
+    embedTitle: string | null;
+    embedUrl: string | null;
+    embedAuthorName: string | null;
+    embedAuthorIconUrl: string | null;
+    embedThumbnailUrl: string | null;
+    embedImageUrl: string | null;
+    embedFooterText: string | null;
+    embedFooterIconUrl: string | null;
+    embedTimestamp: boolean;
+    embedFields: EmbedField[] | null;
+    linkButtons: LinkButton[] | null;
+}
+
+export interface MessageContent extends Partial<EmbedContent> {
+    channelId: string;
+    text: string;
+    sendAsEmbed: boolean;
+    embedColor: string | null;
+}
+
+export const maxEmbedFields = 25;
+export const maxLinkButtons = 25;
+
+const isUrl = (url: string) => /^https?:\/\/\S+$/.test(url);
+
+/**
+ * Builds the message to send, the render function is applied on every text (e.g. to replace the placeholders).
+ */
+export const buildMessagePayload = (content: MessageContent, render: (text: string) => string = text => text): BaseMessageOptions => {
+    const payload: BaseMessageOptions = {};
+
+    if (content.sendAsEmbed) {
+        const embed = new EmbedBuilder()
+            .setDescription(render(content.text) || null)
+            .setColor((content.embedColor || process.env.EMBED_COLOR) as ColorResolvable);
+        if (content.embedTitle) embed.setTitle(render(content.embedTitle).slice(0, 256));
+        if (content.embedUrl) embed.setURL(content.embedUrl);
+        if (content.embedAuthorName) embed.setAuthor({ name: render(content.embedAuthorName).slice(0, 256), iconURL: content.embedAuthorIconUrl || undefined });
+        if (content.embedThumbnailUrl) embed.setThumbnail(content.embedThumbnailUrl);
+        if (content.embedImageUrl) embed.setImage(content.embedImageUrl);
+        if (content.embedFooterText) embed.setFooter({ text: render(content.embedFooterText).slice(0, 2048), iconURL: content.embedFooterIconUrl || undefined });
+        if (content.embedTimestamp) embed.setTimestamp();
+        if (content.embedFields?.length) {
+            embed.addFields(content.embedFields.slice(0, maxEmbedFields).map(field => ({
+                name: render(field.name).slice(0, 256),
+                value: render(field.value).slice(0, 1024),
+                inline: !!field.inline
+            })));
+        }
+        payload.embeds = [embed];
+    } else {
+        payload.content = render(content.text);
+    }
+
+    if (content.linkButtons?.length) {
+        const buttons = content.linkButtons.slice(0, maxLinkButtons).map(button => new ButtonBuilder()
+            .setStyle(ButtonStyle.Link)
+            .setLabel(render(button.label).slice(0, 80))
+            .setURL(button.url));
+        // a row can not contain more than 5 buttons
+        payload.components = Array.from({ length: Math.ceil(buttons.length / 5) }, (_, i) => new ActionRowBuilder<ButtonBuilder>().addComponents(buttons.slice(i * 5, i * 5 + 5)));
+    }
+
+    return payload;
+}
+
+/**
+ * Returns why the embed content can not be sent, or null if it is valid.
+ */
+export const getEmbedContentError = (content: Partial<EmbedContent>) => {
+    const urls = [content.embedUrl, content.embedAuthorIconUrl, content.embedThumbnailUrl, content.embedImageUrl, content.embedFooterIconUrl];
+    if (urls.some(url => url && !isUrl(url))) return 'Every image and link of the embed has to be a valid http(s) URL.';
+    if ((content.embedAuthorIconUrl && !content.embedAuthorName) || (content.embedFooterIconUrl && !content.embedFooterText)) {
+        return 'An icon needs the author name or the footer text it belongs to.';
+    }
+
+    const fields = content.embedFields ?? [];
+    if (fields.length > maxEmbedFields) return `An embed can not have more than ${maxEmbedFields} fields.`;
+    if (fields.some(field => !field.name?.trim() || !field.value?.trim())) return 'Every field needs a name and a value.';
+
+    const buttons = content.linkButtons ?? [];
+    if (buttons.length > maxLinkButtons) return `A message can not have more than ${maxLinkButtons} buttons.`;
+    if (buttons.some(button => !button.label?.trim() || !button.url || !isUrl(button.url))) return 'Every button needs a label and a valid http(s) URL.';
+
+    return null;
+}
+
+@ValidatorConstraint({ name: 'embedContent' })
+export class EmbedContentConstraint implements ValidatorConstraintInterface {
+    validate(_value: unknown, args: ValidationArguments) {
+        return getEmbedContentError(args.object as Partial<EmbedContent>) === null;
+    }
+
+    defaultMessage(args: ValidationArguments) {
+        return getEmbedContentError(args.object as Partial<EmbedContent>) ?? 'Invalid embed.';
+    }
+}
@@ -0,0 +1,210 @@
+import type { Client } from "discord.js";
+import { CronJob } from "cron";
+import { IsNull } from "typeorm";
+import { getPostgres, RecurringMessageTask, ScheduledMessage } from "../database.js";
+import { deliverRecurringTask, deliverScheduledMessage, recordMissedRun } from "./delivery.js";
+import { getCronExpression, getCronExpressionError, getLastRunBetween, getTimeZone, isValidTimeZone } from "./schedule.js";
+
+export type ScheduledJobType = 'task' | 'message';
+
+export interface ScheduledJob {
+    type: ScheduledJobType;
+    // id of the recurring message task or of the scheduled message
+    id: number;
+    recurringMessageId: number | null;
+    cronJob: CronJob;
+    // the job is only recreated when its signature changes, so an unchanged job never misses or repeats a run
+    signature: string;
+}
+
+const jobs = new Map<string, ScheduledJob>();
+
+const getJobKey = (type: ScheduledJobType, id: number) => `${type}:${id}`;
+
+const setJob = (job: Omit<ScheduledJob, 'cronJob'>, createCronJob: () => CronJob) => {
+    const key = getJobKey(job.type, job.id);
+    const existingJob = jobs.get(key);
+    if (existingJob?.signature === job.signature) return;
+
+    existingJob?.cronJob.stop();
+    jobs.set(key, { ...job, cronJob: createCronJob() });
+}
+
+const removeJob = (type: ScheduledJobType, id: number) => {
+    const key = getJobKey(type, id);
+    jobs.get(key)?.cronJob.stop();
+    jobs.delete(key);
+}
+
+/**
+ * Creates the job of the task, or updates it if its schedule changed.
+ */
+export const scheduleTask = (client: Client, task: RecurringMessageTask) => {
+    if (!task.enabled) return removeJob('task', task.id);
+
+    const cronTime = getCronExpression(task);
+    const timeZone = getTimeZone(task);
+    if (getCronExpressionError(cronTime) || !isValidTimeZone(timeZone)) {
+        console.error(`Not scheduling task ${task.id}, its schedule is invalid (${cronTime}, ${timeZone})`);
+        return removeJob('task', task.id);
+    }
+
+    setJob({
+        type: 'task',
+        id: task.id,
+        recurringMessageId: task.recurringMessageId,
+        signature: `${task.recurringMessageId} ${cronTime} ${timeZone}`
+    }, () => {
+        console.log(`Scheduling cron job for task ${task.id} with cron tab ${cronTime} (${timeZone})`);
+        return CronJob.from({
+            cronTime,
+            onTick: () => {
+                deliverRecurringTask(client, task).catch((e) => console.error(`Could not run the task ${task.id}`, e));
+            },
+            start: true,
+            timeZone
+        });
+    });
+}
+
+export const unscheduleTask = (taskId: number) => removeJob('task', taskId);
+
+export const unscheduleRecurringMessage = (recurringMessageId: number) => {
+    for (const job of jobs.values()) {
+        if (job.recurringMessageId === recurringMessageId) removeJob(job.type, job.id);
+    }
+}
+
+/**
+ * Creates the job of the one-off message, or removes it once the message has been sent.
+ */
+export const scheduleMessage = (client: Client, scheduledMessage: ScheduledMessage) => {
+    if (scheduledMessage.sentAt || scheduledMessage.failedAt) return removeJob('message', scheduledMessage.id);
+
+    const sendAt = new Date(scheduledMessage.sendAt);
+    setJob({
+        type: 'message',
+        id: scheduledMessage.id,
+        recurringMessageId: null,
+        signature: sendAt.toISOString()
+    }, () => CronJob.from({
+        // messages that should have been sent while the bot was offline are sent right away
+        cronTime: sendAt > new Date() ? sendAt : new Date(Date.now() + 1000),
+        onTick: () => deliverScheduledMessage(client, scheduledMessage.id),
+        start: true
+    }));
+}
+
+export const unscheduleMessage = (scheduledMessageId: number) => removeJob('message', scheduledMessageId);
+
+// the missed runs are only caught up once, when the bot starts
+let caughtUp = false;
+
+/**
+ * Sends the last run of each task missed while the bot was offline, if it is within the grace window of the server.
+ * Older missed runs are only recorded in the delivery history.
+ */
+const catchUpMissedRuns = async (client: Client, tasks: RecurringMessageTask[]) => {
+    const now = new Date();
+    for (const task of tasks) {
+        if (!jobs.has(getJobKey('task', task.id))) continue;
+
+        const graceStart = new Date(now.getTime() - task.recurringMessage.server.missedRunGraceMinutes * 60_000);
+        // tasks that never ran (e.g. created before the runs were stored) only catch up the runs of the grace window
+        const lastMissedRun = getLastRunBetween(task, task.lastRunAt ?? graceStart, now);
+        if (!lastMissedRun) continue;
+
+        if (lastMissedRun >= graceStart && task.recurringMessage.server.missedRunGraceMinutes > 0) {
+            console.log(`Catching up the run of task ${task.id} missed on ${lastMissedRun.toISOString()}`);
+            deliverRecurringTask(client, task, lastMissedRun).catch((e) => console.error(`Could not catch up the task ${task.id}`, e));
+            continue;
+        }
+
+        await recordMissedRun({
+            serverId: task.recurringMessage.serverId,
+            channelId: task.recurringMessage.channelId,
+            scheduledFor: lastMissedRun,
+            taskId: task.id,
+            recurringMessageId: task.recurringMessageId,
+            scheduledMessageId: null
+        });
+        await (await getPostgres).getRepository(RecurringMessageTask).update(task.id, { lastRunAt: lastMissedRun });
+    }
+}
+
+/**
+ * Marks the one-off messages that are too late to be sent, so they are not sent hours after their date.
+ */
+const expireMissedMessages = async (scheduledMessages: ScheduledMessage[]) => {
+    const now = Date.now();
+    const repository = (await getPostgres).getRepository(ScheduledMessage);
+    const pendingMessages: ScheduledMessage[] = [];
+
+    for (const scheduledMessage of scheduledMessages) {
+        const graceStart = now - scheduledMessage.server.missedRunGraceMinutes * 60_000;
+        if (new Date(scheduledMessage.sendAt).getTime() >= graceStart) {
+            pendingMessages.push(scheduledMessage);
+            continue;
+        }
+        await recordMissedRun({
+            serverId: scheduledMessage.serverId,
+            channelId: scheduledMessage.channelId,
+            scheduledFor: scheduledMessage.sendAt,
+            taskId: null,
+            recurringMessageId: null,
+            scheduledMessageId: scheduledMessage.id
+        });
+        await repository.update(scheduledMessage.id, { failedAt: new Date() });
+    }
+    return pendingMessages;
+}
+
+/**
+ * Makes the jobs match the database: creates the missing ones, updates the changed ones and removes the deleted ones.
+ * Unchanged jobs are kept as they are.
+ */
+export const loadScheduledJobs = async (client: Client) => {
+    const postgres = await getPostgres;
+    const tasks = await postgres.getRepository(RecurringMessageTask).find({
+        where: { enabled: true },
+        relations: { recurringMessage: { server: true } }
+    });
+    let scheduledMessages = await postgres.getRepository(ScheduledMessage).find({
+        where: { sentAt: IsNull(), failedAt: IsNull() },
+        relations: { server: true }
+    });
+    if (!caughtUp) scheduledMessages = await expireMissedMessages(scheduledMessages);
+
+    const keys = new Set([
+        ...tasks.map(task => getJobKey('task', task.id)),
+        ...scheduledMessages.map(message => getJobKey('message', message.id))
+    ]);
+    for (const job of [...jobs.values()]) {
+        if (!keys.has(getJobKey(job.type, job.id))) removeJob(job.type, job.id);
+    }
+
+    for (const task of tasks) scheduleTask(client, task);
+    for (const scheduledMessage of scheduledMessages) scheduleMessage(client, scheduledMessage);
+
+    if (!caughtUp) {
+        caughtUp = true;
+        await catchUpMissedRuns(client, tasks);
+    }
+
+    console.log(`Scheduled ${jobs.size} cron jobs`);
+}
+
+/**
+ * Returns the active jobs with their next run, sorted by next run.
+ */
+export const getScheduledJobs = () => {
+    return [...jobs.values()]
+        .map(job => {
+            let nextRun: Date | null = null;
+            try {
+                nextRun = job.cronJob.nextDate().toJSDate();
+            } catch {}
+            return { type: job.type, id: job.id, recurringMessageId: job.recurringMessageId, nextRun };
+        })
+        .sort((a, b) => (a.nextRun?.getTime() ?? Number.POSITIVE_INFINITY) - (b.nextRun?.getTime() ?? Number.POSITIVE_INFINITY));
+}
@@ -0,0 +1,210 @@
+import { type ValidationArguments, ValidatorConstraint, type ValidatorConstraintInterface } from "class-validator";
+import { CronTime } from "cron";
+
+export type ScheduleMode = 'simple' | 'advanced';
+
+export interface TaskSchedule {
+    mode: ScheduleMode;
+    cronExpression: string | null;
+    dayOfWeek: string | null;
+    utcTimeHour: string | null;
+    utcTimeMinute: string | null;
+    timeZone: string;
+}
+
+export const scheduleModes: { value: ScheduleMode, label: string }[] = [
+    { value: 'simple', label: 'Simple: a day of the week and a time' },
+    { value: 'advanced', label: 'Advanced: any cron expression' },
+];
+
+export const defaultTimeZone = 'UTC';
+
+/**
+ * Returns the cron expression of the task, built from its day and time in the simple mode.
+ */
+export const getCronExpression = (task: TaskSchedule) => {
+    if (task.mode === 'advanced') return task.cronExpression?.trim() ?? '';
+    return `0 ${task.utcTimeMinute ?? '0'} ${task.utcTimeHour ?? '0'} * * ${task.dayOfWeek ?? '*'}`;
+}
+
+export const getTimeZone = (task: TaskSchedule) => task.timeZone?.trim() || defaultTimeZone;
+
+export const isValidTimeZone = (timeZone: string) => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Returns why the cron expression can not be used, or null if it is valid.
+ */
+export const getCronExpressionError = (expression: string) => {
+    if (!expression) return 'The cron expression can not be empty.';
+    try {
+        new CronTime(expression);
+        return null;
+    } catch (e) {
+        return `Invalid cron expression: ${e instanceof Error ? e.message : e}`;
+    }
+}
+
+/**
+ * Returns the next run dates of the task, or an empty array if its schedule is invalid.
+ */
+export const getNextRuns = (task: TaskSchedule, count: number): Date[] => {
+    try {
+        const cronTime = new CronTime(getCronExpression(task), getTimeZone(task));
+        return cronTime.sendAt(count).map(date => date.toJSDate());
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Returns the run dates of the task between the two dates (both excluded), at most the given number of them.
+ */
+export const getRunsBetween = (task: TaskSchedule, from: Date, to: Date, limit = 1000): Date[] => {
+    const timeZone = getTimeZone(task);
+    const cronTime = new CronTime(getCronExpression(task), timeZone);
+    const runs: Date[] = [];
+    let date = cronTime.getNextDateFrom(from, timeZone);
+    while (date.toJSDate() < to && runs.length < limit) {
+        runs.push(date.toJSDate());
+        date = cronTime.getNextDateFrom(date, timeZone);
+    }
+    return runs;
+}
+
+/**
+ * Returns the latest run date of the task between the two dates (both excluded), or null if there is none.
+ * The runs can only be listed forward, so the window is widened back from the end date until it contains a run.
+ */
+export const getLastRunBetween = (task: TaskSchedule, from: Date, to: Date, limit = 1000): Date | null => {
+    for (let minutes = 1; ; minutes *= 2) {
+        const windowStart = new Date(Math.max(from.getTime(), to.getTime() - minutes * 60_000));
+        let lastRun: Date | null = null;
+        let runs = getRunsBetween(task, windowStart, to, limit);
+        // a window with more runs than the limit is listed again from its last run
+        while (runs.length) {
+            lastRun = runs[runs.length - 1];
+            if (runs.length < limit) break;
+            runs = getRunsBetween(task, lastRun, to, limit);
+        }
+        if (lastRun || windowStart.getTime() === from.getTime()) return lastRun;
+    }
+}
+
+/**
+ * Formats a date in the given time zone, e.g. "Mon, Mar 31, 2025, 09:00 CEST".
+ */
+export const formatDate = (date: Date, timeZone: string) => {
+    return date.toLocaleString('en-US', {
+        timeZone,
+        weekday: 'short',
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+        timeZoneName: 'short'
+    });
+}
+
+const getTimeZoneOffset = (date: Date, timeZone: string) => {
+    const parts = Object.fromEntries(new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+        hourCycle: 'h23'
+    }).formatToParts(date).map(part => [part.type, part.value]));
+    const localTime = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+    return localTime - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Parses a "YYYY-MM-DD HH:MM" (or "YYYY-MM-DD") date typed in the given time zone. Returns null if it is invalid.
+ */
+export const parseDate = (input: string, timeZone: string) => {
+    const match = input.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2}))?$/);
+    if (!match || !isValidTimeZone(timeZone)) return null;
+
+    const [year, month, day, hour, minute] = match.slice(1).map(value => Number.parseInt(value ?? '0'));
+    const localTime = Date.UTC(year, month - 1, day, hour, minute);
+    const localDate = new Date(localTime);
+    if (localDate.getUTCMonth() !== month - 1 || localDate.getUTCDate() !== day || hour > 23) return null;
+
+    // the offset is computed twice, in case the first guess is on the other side of a daylight saving change
+    const guess = new Date(localTime - getTimeZoneOffset(localDate, timeZone));
+    return new Date(localTime - getTimeZoneOffset(guess, timeZone));
+}
+
+export const isWithinPeriod = (period: { startsAt: Date | null, endsAt: Date | null }, date = new Date()) => {
+    return (!period.startsAt || period.startsAt <= date) && (!period.endsAt || period.endsAt > date);
+}
+
+export const describeNextRuns = (task: TaskSchedule, count: number) => {
+    const nextRuns = getNextRuns(task, count);
+    if (!nextRuns.length) return 'Invalid schedule';
+    return nextRuns.map(date => formatDate(date, getTimeZone(task))).join('\n');
+}
+
+@ValidatorConstraint({ name: 'cronExpression' })
+export class CronExpressionConstraint implements ValidatorConstraintInterface {
+    validate(expression: string | null) {
+        return getCronExpressionError(expression?.trim() ?? '') === null;
+    }
+
+    defaultMessage(args: ValidationArguments) {
+        return getCronExpressionError(args.value?.trim() ?? '') ?? 'Invalid cron expression.';
+    }
+}
+
+/**
+ * Validates the hour or the minute of the simple mode. Besides a number, any value of the cron field is accepted,
+ * as tasks created before the hours and minutes were picked from a list can use leading zeros, steps or lists.
+ */
+@ValidatorConstraint({ name: 'cronTimeField' })
+export class CronTimeFieldConstraint implements ValidatorConstraintInterface {
+    validate(value: string | null, args: ValidationArguments) {
+        // an empty field is read as 0
+        if (value === null || value === undefined) return true;
+        if (typeof value !== 'string' || !/^[\d*,/-]+$/.test(value)) return false;
+        const expression = args.constraints[0] === 'hour' ? `0 0 ${value} * * *` : `0 ${value} 0 * * *`;
+        return getCronExpressionError(expression) === null;
+    }
+
+    defaultMessage(args: ValidationArguments) {
+        return `${args.value} is not a valid ${args.constraints[0]}.`;
+    }
+}
+
+@ValidatorConstraint({ name: 'timeZone' })
+export class TimeZoneConstraint implements ValidatorConstraintInterface {
+    validate(timeZone: string) {
+        return !!timeZone && isValidTimeZone(timeZone);
+    }
+
+    defaultMessage(args: ValidationArguments) {
+        return `${args.value} is not a valid IANA time zone (e.g. Europe/Paris).`;
+    }
+}
+
+@ValidatorConstraint({ name: 'endDate' })
+export class EndDateConstraint implements ValidatorConstraintInterface {
+    validate(endsAt: Date | string, args: ValidationArguments) {
+        const { startsAt } = args.object as { startsAt: Date | string };
+        return new Date(endsAt) > new Date(startsAt);
+    }
+
+    defaultMessage() {
+        return 'The end date has to be after the start date.';
+    }
+}
@@ -0,0 +1,85 @@
+import type { Guild } from "discord.js";
+import humanizeDuration from "humanize-duration";
+import { parseDate } from "./schedule.js";
+
+export type VariantMode = 'none' | 'rotate' | 'random';
+
+export const variantModes: { value: VariantMode, label: string }[] = [
+    { value: 'none', label: 'Always send the whole text' },
+    { value: 'rotate', label: 'Send the variants one after the other' },
+    { value: 'random', label: 'Send a random variant' },
+];
+
+export const variantSeparator = '---';
+
+export const templatePlaceholders = '{date}, {time} (in the time zone of the task), {server}, {members} (member count), {role:name or ID}, {channel:name or ID}, {countdown:YYYY-MM-DD HH:MM}';
+
+/**
+ * Splits the text into its variants, separated by lines only containing "---".
+ */
+export const splitVariants = (text: string) => {
+    return text.split(/^[ \t]*---[ \t]*$/m).map(variant => variant.trim()).filter(variant => variant);
+}
+
+/**
+ * Picks the variant to send and returns the index of the one to send next time.
+ */
+export const pickVariant = (message: { text: string, variantMode: VariantMode, nextVariant: number }) => {
+    const variants = splitVariants(message.text);
+    if (message.variantMode === 'none' || variants.length <= 1) {
+        return { text: message.text, nextVariant: message.nextVariant };
+    }
+    if (message.variantMode === 'random') {
+        return { text: variants[Math.floor(Math.random() * variants.length)], nextVariant: message.nextVariant };
+    }
+    const index = message.nextVariant % variants.length;
+    return { text: variants[index], nextVariant: (index + 1) % variants.length };
+}
+
+const resolveMention = (guild: Guild, type: 'role' | 'channel', input: string) => {
+    const search = input.trim().replace(/^[@#]/, '').toLowerCase();
+    if (type === 'role') {
+        const role = guild.roles.cache.get(search) ?? guild.roles.cache.find(r => r.name.toLowerCase() === search);
+        return role ? `<@&${role.id}>` : null;
+    }
+    const channel = guild.channels.cache.get(search) ?? guild.channels.cache.find(c => c.name.toLowerCase() === search);
+    return channel ? `<#${channel.id}>` : null;
+}
+
+/**
+ * Returns the IDs of the roles mentioned by the {role:...} placeholders of the text, the only roles the message can ping.
+ */
+export const getTemplateRoleIds = (text: string, guild: Guild | null) => {
+    if (!guild) return [];
+    return [...text.matchAll(/\{role:([^}]+)\}/g)]
+        .map(([, argument]) => resolveMention(guild, 'role', argument)?.slice(3, -1))
+        .filter((id): id is string => !!id);
+}
+
+/**
+ * Replaces the {placeholders} of the text, unknown placeholders are kept as is.
+ */
+export const renderTemplate = (text: string, guild: Guild | null, timeZone: string, now = new Date()) => {
+    return text.replace(/\{(\w+)(?::([^}]+))?\}/g, (placeholder, key: string, argument?: string) => {
+        switch (key) {
+            case 'date':
+                return now.toLocaleDateString('en-US', { timeZone, weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+            case 'time':
+                return now.toLocaleTimeString('en-US', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+            case 'server':
+                return guild?.name ?? placeholder;
+            case 'members':
+                return guild?.memberCount.toString() ?? placeholder;
+            case 'role':
+            case 'channel':
+                return (guild && argument && resolveMention(guild, key, argument)) || placeholder;
+            case 'countdown': {
+                const date = argument ? parseDate(argument, timeZone) : null;
+                if (!date) return placeholder;
+                return humanizeDuration(Math.max(date.getTime() - now.getTime(), 0), { largest: 2, round: true, units: ['d', 'h', 'm'] });
+            }
+            default:
+                return placeholder;
+        }
+    });
+}
@@ -0,0 +1,137 @@
+import { ActionRowBuilder, ApplicationCommandOptionType, AttachmentBuilder, ButtonBuilder, ButtonStyle, type ChatInputApplicationCommandData, ComponentType, EmbedBuilder, MessageFlags, PermissionFlagsBits } from "discord.js";
+import type { SlashCommandRunFunction } from "../handlers/commands.js";
+import { findServer } from "../database.js";
+import { applyConfigImport, configSectionNames, describeConfigImportPlan, exportServerConfig, getServerConfigError, hasConfigChanges, planConfigImport, type ServerConfig } from "../config/transfer.js";
+import { errorEmbed, successEmbed } from "../util.js";
+
+// exports are a few kilobytes, bigger files are not configs
+const maxFileSize = 2 * 1024 * 1024;
+
+// time given to review the changes before the import is cancelled
+const confirmationTimeout = 5 * 60_000;
+
+export const commands: ChatInputApplicationCommandData[] = [
+    {
+        name: 'config',
+        description: 'Export the config of this server, or import the config of another one',
+        defaultMemberPermissions: PermissionFlagsBits.ManageGuild,
+        dmPermission: false,
+        options: [
+            {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: 'export',
+                description: 'Download the settings, the rules and the recurring messages of this server as a JSON file'
+            },
+            {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: 'import',
+                description: 'Replace the config of this server by an exported one, the changes are shown before they are applied',
+                options: [
+                    {
+                        type: ApplicationCommandOptionType.Attachment,
+                        name: 'file',
+                        description: 'A JSON file created with /config export',
+                        required: true
+                    }
+                ]
+            }
+        ]
+    }
+];
+
+export const run: SlashCommandRunFunction = async (interaction) => {
+
+    if (!interaction.isChatInputCommand() || !interaction.inCachedGuild()) return;
+
+    const server = await findServer(interaction.guildId);
+    if (!server) {
+        return interaction.reply(errorEmbed('This server is not registered yet, please try again in a few minutes.'));
+    }
+
+    switch (interaction.options.getSubcommand()) {
+        case 'export': {
+            const config = await exportServerConfig(server, interaction.guild);
+            const file = new AttachmentBuilder(Buffer.from(JSON.stringify(config, null, 4)), { name: `config-${interaction.guildId}.json` });
+            return interaction.reply({
+                ...successEmbed('Here is the config of this server. Import it with `/config import`, in this server or in another one: the channels and the roles are found by name.'),
+                files: [file],
+                flags: MessageFlags.Ephemeral
+            });
+        }
+        case 'import': {
+            const attachment = interaction.options.getAttachment('file', true);
+            if (attachment.size > maxFileSize) {
+                return interaction.reply({ ...errorEmbed('This file is too big to be a config.'), flags: MessageFlags.Ephemeral });
+            }
+
+            await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+            let data: unknown;
+            try {
+                data = await (await fetch(attachment.url)).json();
+            } catch {
+                return interaction.editReply(errorEmbed('This file is not a valid JSON file.'));
+            }
+            const error = getServerConfigError(data);
+            if (error) {
+                return interaction.editReply(errorEmbed(error));
+            }
+
+            const config = data as ServerConfig;
+            const plan = await planConfigImport(server, interaction.guild, config);
+            const warnings = plan.warnings.length ? `\n\n⚠️ ${plan.warnings.length} item(s) can not be imported, see the end of the file.` : '';
+            if (!hasConfigChanges(plan)) {
+                return interaction.editReply(successEmbed(`The config of this server is already the same, there is nothing to import.${warnings}`));
+            }
+
+            const summary = [
+                ...plan.settingChanges.map(change => `- ${change}`),
+                ...configSectionNames
+                    .filter(name => plan.sections[name].added.length || plan.sections[name].removed.length)
+                    .map(name => `- **${name}**: ${plan.sections[name].added.length} added, ${plan.sections[name].removed.length} removed`)
+            ].join('\n');
+            const diff = [...describeConfigImportPlan(plan), ...plan.warnings.map(warning => `! ${warning}`)].join('\n');
+            const buttons = new ActionRowBuilder<ButtonBuilder>().addComponents(
+                new ButtonBuilder().setCustomId('config-import-apply').setLabel('Apply').setStyle(ButtonStyle.Danger),
+                new ButtonBuilder().setCustomId('config-import-cancel').setLabel('Cancel').setStyle(ButtonStyle.Secondary)
+            );
+            const reply = await interaction.editReply({
+                embeds: [
+                    new EmbedBuilder()
+                        .setTitle(`Importing the config of ${config.source.name ?? 'another server'}`)
+                        .setDescription(`${summary.slice(0, 3500)}${warnings}\n\nThe full list of changes is in the file. Nothing is changed until you apply them.`)
+                        .setColor(process.env.EMBED_COLOR)
+                ],
+                files: [new AttachmentBuilder(Buffer.from(diff), { name: 'config-changes.txt' })],
+                components: [buttons]
+            });
+
+            const button = await reply.awaitMessageComponent({
+                componentType: ComponentType.Button,
+                filter: (i) => i.user.id === interaction.user.id,
+                time: confirmationTimeout
+            }).catch(() => null);
+            const cancelled = { ...errorEmbed('The import has been cancelled, nothing was changed.'), attachments: [], components: [] };
+            if (!button) return interaction.editReply(cancelled);
+            if (button.customId === 'config-import-cancel') return button.update(cancelled);
+
+            await button.deferUpdate();
+
+            // the rules may have changed while the changes were reviewed, the import is only applied if it still does what was shown
+            const currentServer = await findServer(interaction.guildId);
+            const currentPlan = currentServer && await planConfigImport(currentServer, interaction.guild, config);
+            if (!currentPlan || describeConfigImportPlan(currentPlan).join('\n') !== describeConfigImportPlan(plan).join('\n')) {
+                return interaction.editReply({ ...errorEmbed('The config of this server changed since the changes were shown, nothing was changed. Run `/config import` again to review the new changes.'), attachments: [], components: [] });
+            }
+
+            try {
+                await applyConfigImport(interaction.client, currentPlan);
+            } catch (e) {
+                console.error(`Could not import the config of server ${server.id}`, e);
+                return interaction.editReply({ ...errorEmbed('The config could not be imported, nothing was changed.'), attachments: [], components: [] });
+            }
+            return interaction.editReply({ ...successEmbed('The config has been imported.'), attachments: [], components: [] });
+        }
+    }
+
+}
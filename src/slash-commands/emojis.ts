@@ -0,0 +1,231 @@
+import { ApplicationCommandOptionType, type ChatInputApplicationCommandData, ChannelType, EmbedBuilder, PermissionFlagsBits } from "discord.js";
+import { IsNull } from "typeorm";
+import type { SlashCommandRunFunction } from "../handlers/commands.js";
+import { BlacklistedEmoji, ChannelSettings, findServer, getPostgres, ReactionPolicy, Server, WhitelistedEmoji } from "../database.js";
+import { resolveEmojiInput } from "../restrictions/emojis.js";
+import { reactionModes } from "../restrictions/reactions.js";
+import { errorEmbed, successEmbed } from "../util.js";
+
+const emojiOption = {
+    type: ApplicationCommandOptionType.String,
+    name: 'emoji',
+    description: 'The emoji, either picked from the emoji menu or typed by its name',
+    required: true
+} as const;
+
+const scopeOptions = [
+    {
+        type: ApplicationCommandOptionType.Channel,
+        name: 'channel',
+        description: 'Apply to this channel only instead of the whole server',
+        channelTypes: [ChannelType.GuildText, ChannelType.GuildAnnouncement]
+    },
+    {
+        type: ApplicationCommandOptionType.String,
+        name: 'message_id',
+        description: 'Apply to this message only instead of the whole server'
+    }
+] as const;
+
+export const commands: ChatInputApplicationCommandData[] = [
+    {
+        name: 'emojis',
+        description: 'Manage the reactions allowed in this server',
+        defaultMemberPermissions: PermissionFlagsBits.ManageChannels,
+        dmPermission: false,
+        options: [
+            {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: 'allow',
+                description: 'Add an emoji to the allowed reactions (whitelist mode)',
+                options: [emojiOption, ...scopeOptions]
+            },
+            {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: 'deny',
+                description: 'Add an emoji to the forbidden reactions (blacklist mode)',
+                options: [emojiOption, ...scopeOptions]
+            },
+            {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: 'remove',
+                description: 'Remove an emoji from both the allowed and the forbidden reactions',
+                options: [emojiOption, ...scopeOptions]
+            },
+            {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: 'list',
+                description: 'List the allowed and forbidden reactions',
+                options: [...scopeOptions]
+            },
+            {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: 'mode',
+                description: 'Switch between the whitelist, the blacklist and the off mode',
+                options: [
+                    {
+                        type: ApplicationCommandOptionType.String,
+                        name: 'mode',
+                        description: 'Whitelist: only allowed emojis are kept. Blacklist: only forbidden emojis are removed',
+                        required: true,
+                        choices: [
+                            { name: 'Whitelist', value: 'whitelist' },
+                            { name: 'Blacklist', value: 'blacklist' },
+                            { name: 'Off', value: 'off' },
+                            { name: 'Inherit (use the mode of the channel or the server)', value: 'inherit' }
+                        ]
+                    },
+                    ...scopeOptions
+                ]
+            },
+            {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: 'limits',
+                description: 'Limit the number of reactions on each message of a channel (omitted options are left unchanged)',
+                options: [
+                    {
+                        type: ApplicationCommandOptionType.Channel,
+                        name: 'channel',
+                        description: 'The channel the limits apply to',
+                        channelTypes: [ChannelType.GuildText, ChannelType.GuildAnnouncement],
+                        required: true
+                    },
+                    {
+                        type: ApplicationCommandOptionType.Integer,
+                        name: 'per_member',
+                        description: 'Maximum number of reactions a member can add to the same message, 0 for no limit',
+                        minValue: 0
+                    },
+                    {
+                        type: ApplicationCommandOptionType.Integer,
+                        name: 'distinct',
+                        description: 'Maximum number of different emojis on the same message, 0 for no limit',
+                        minValue: 0
+                    }
+                ]
+            }
+        ]
+    }
+];
+
+export const run: SlashCommandRunFunction = async (interaction) => {
+
+    if (!interaction.isChatInputCommand() || !interaction.inCachedGuild()) return;
+
+    const server = await findServer(interaction.guildId);
+    if (!server) {
+        return interaction.reply(errorEmbed('This server is not registered yet, please try again in a few minutes.'));
+    }
+
+    const channelId = interaction.options.getChannel('channel')?.id ?? null;
+    const messageId = interaction.options.getString('message_id');
+    if (messageId && !/^\d{17,20}$/.test(messageId)) {
+        return interaction.reply(errorEmbed('This is not a valid message ID.'));
+    }
+
+    const scopeName = messageId ? `message ${messageId}` : channelId ? `<#${channelId}>` : 'the whole server';
+    const scope = { serverId: server.id.toString(), channelId, messageId };
+    const scopeWhere = { serverId: server.id.toString(), channelId: channelId ?? IsNull(), messageId: messageId ?? IsNull() };
+
+    const postgres = await getPostgres;
+    const whitelistRepository = postgres.getRepository(WhitelistedEmoji);
+    const blacklistRepository = postgres.getRepository(BlacklistedEmoji);
+    const policyRepository = postgres.getRepository(ReactionPolicy);
+    const subcommand = interaction.options.getSubcommand();
+
+    if (subcommand === 'list') {
+        const whitelisted = await whitelistRepository.find({ where: scopeWhere });
+        const blacklisted = await blacklistRepository.find({ where: scopeWhere });
+        const policy = await policyRepository.findOne({ where: scopeWhere });
+        const formatList = (emojis: { emojiUnicodeOrId: string }[]) => emojis.map(e => e.emojiUnicodeOrId).join(' ').slice(0, 1024) || 'None';
+        const serverMode = server.blacklistModeEnabled ? 'blacklist' : 'whitelist';
+        const mode = policy?.mode ?? (channelId || messageId ? 'inherited' : serverMode);
+
+        return interaction.reply({
+            embeds: [
+                new EmbedBuilder()
+                    .setTitle('Reaction rules')
+                    .setDescription(`Rules of ${scopeName}\nCurrent mode: **${mode}**`)
+                    .addFields(
+                        { name: 'Allowed (whitelist mode)', value: formatList(whitelisted) },
+                        { name: 'Forbidden (blacklist mode)', value: formatList(blacklisted) }
+                    )
+                    .setColor(process.env.EMBED_COLOR)
+            ]
+        });
+    }
+
+    if (subcommand === 'mode') {
+        const mode = interaction.options.getString('mode', true);
+        const policy = await policyRepository.findOne({ where: scopeWhere });
+
+        // the whitelist and blacklist modes of the whole server are stored on the server itself
+        const isServerMode = !channelId && !messageId && (mode === 'whitelist' || mode === 'blacklist');
+        if (isServerMode) {
+            server.blacklistModeEnabled = mode === 'blacklist';
+            await postgres.getRepository(Server).save(server);
+        }
+
+        if (mode === 'inherit' || isServerMode) {
+            if (policy) await policyRepository.remove(policy);
+        } else {
+            const newPolicy = policy ?? policyRepository.create(scope);
+            newPolicy.mode = mode as ReactionPolicy['mode'];
+            await policyRepository.save(newPolicy);
+        }
+
+        const label = reactionModes.find(m => m.value === mode)?.label ?? 'Inherit: the mode of the broader scope is used';
+        return interaction.reply(successEmbed(`Reactions of ${scopeName}: ${label.toLowerCase()}.`));
+    }
+
+    if (subcommand === 'limits') {
+        const channel = interaction.options.getChannel('channel', true);
+        const settingsRepository = postgres.getRepository(ChannelSettings);
+        const settings = await settingsRepository.findOne({ where: { serverId: server.id.toString(), channelId: channel.id } })
+            ?? settingsRepository.create({ channelId: channel.id, serverId: server.id.toString() });
+
+        const perMember = interaction.options.getInteger('per_member');
+        if (perMember !== null) settings.maxReactionsPerUser = perMember || null;
+        const distinct = interaction.options.getInteger('distinct');
+        if (distinct !== null) settings.maxDistinctReactions = distinct || null;
+        await settingsRepository.save(settings);
+
+        const limits = [
+            ...(settings.maxReactionsPerUser ? [`${settings.maxReactionsPerUser} reaction(s) per member`] : []),
+            ...(settings.maxDistinctReactions ? [`${settings.maxDistinctReactions} different emoji(s)`] : [])
+        ];
+        return interaction.reply(successEmbed(limits.length
+            ? `Messages in ${channel} are now limited to ${limits.join(' and ')}.`
+            : `There is no reaction limit in ${channel} anymore.`));
+    }
+
+    const emoji = resolveEmojiInput(interaction.options.getString('emoji', true), interaction.guild);
+    if (!emoji) {
+        return interaction.reply(errorEmbed('This is not a valid emoji. Pick it from the emoji menu or type the name of an emoji of this server.'));
+    }
+
+    const where = { ...scopeWhere, emojiUnicodeOrId: emoji };
+
+    switch (subcommand) {
+        case 'allow':
+        case 'deny': {
+            const repository = subcommand === 'allow' ? whitelistRepository : blacklistRepository;
+            if (await repository.findOne({ where })) {
+                return interaction.reply(errorEmbed(`${emoji} is already ${subcommand === 'allow' ? 'allowed' : 'forbidden'} in ${scopeName}.`));
+            }
+            await repository.save(repository.create({ ...scope, emojiUnicodeOrId: emoji }));
+            return interaction.reply(successEmbed(`${emoji} is now ${subcommand === 'allow' ? 'allowed' : 'forbidden'} in ${scopeName}.`));
+        }
+        case 'remove': {
+            const whitelisted = await whitelistRepository.find({ where });
+            const blacklisted = await blacklistRepository.find({ where });
+            if (!whitelisted.length && !blacklisted.length) {
+                return interaction.reply(errorEmbed(`${emoji} is neither allowed nor forbidden in ${scopeName}.`));
+            }
+            await whitelistRepository.remove(whitelisted);
+            await blacklistRepository.remove(blacklisted);
+            return interaction.reply(successEmbed(`${emoji} has been removed from the reaction rules of ${scopeName}.`));
+        }
+    }
+
+}
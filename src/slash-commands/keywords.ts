@@ -0,0 +1,217 @@
+import { ApplicationCommandOptionType, type ChatInputApplicationCommandData, ChannelType, EmbedBuilder, PermissionFlagsBits } from "discord.js";
+import { validate } from "class-validator";
+import type { SlashCommandAutocompleteFunction, SlashCommandRunFunction } from "../handlers/commands.js";
+import { ChannelSettings, findServer, getPostgres, Keyword } from "../database.js";
+import { describeKeyword, keywordKinds } from "../restrictions/keywords.js";
+import { editActions } from "../restrictions/messages.js";
+import { errorEmbed, generateEmbeds, replyWithEmbeds, successEmbed } from "../util.js";
+
+const channelOption = {
+    type: ApplicationCommandOptionType.Channel,
+    name: 'channel',
+    description: 'The channel the rules apply to',
+    channelTypes: [ChannelType.GuildText, ChannelType.GuildAnnouncement],
+    required: true
+} as const;
+
+export const commands: ChatInputApplicationCommandData[] = [
+    {
+        name: 'keywords',
+        description: 'Manage the keyword rules of a channel',
+        defaultMemberPermissions: PermissionFlagsBits.ManageChannels,
+        dmPermission: false,
+        options: [
+            {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: 'add',
+                description: 'Add a keyword rule to a channel',
+                options: [
+                    channelOption,
+                    {
+                        type: ApplicationCommandOptionType.String,
+                        name: 'text',
+                        description: 'The text (or regular expression) messages are checked against',
+                        required: true
+                    },
+                    {
+                        type: ApplicationCommandOptionType.String,
+                        name: 'kind',
+                        description: 'How the message is compared with the text (defaults to "starts with")',
+                        choices: keywordKinds.map(kind => ({ name: kind.label, value: kind.value }))
+                    },
+                    {
+                        type: ApplicationCommandOptionType.Boolean,
+                        name: 'case_insensitive',
+                        description: 'Whether the case of the letters should be ignored'
+                    }
+                ]
+            },
+            {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: 'remove',
+                description: 'Remove a keyword rule from a channel',
+                options: [
+                    channelOption,
+                    {
+                        type: ApplicationCommandOptionType.String,
+                        name: 'keyword',
+                        description: 'The rule to remove',
+                        required: true,
+                        autocomplete: true
+                    }
+                ]
+            },
+            {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: 'list',
+                description: 'List the keyword rules of a channel',
+                options: [channelOption]
+            },
+            {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: 'clear',
+                description: 'Remove every keyword rule of a channel',
+                options: [channelOption]
+            },
+            {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: 'edits',
+                description: 'Choose what happens when a message is edited into one breaking the rules',
+                options: [
+                    channelOption,
+                    {
+                        type: ApplicationCommandOptionType.String,
+                        name: 'action',
+                        description: 'The action applied to bad edits',
+                        required: true,
+                        choices: editActions.map(action => ({ name: action.label, value: action.value }))
+                    }
+                ]
+            }
+        ]
+    }
+];
+
+export const run: SlashCommandRunFunction = async (interaction) => {
+
+    if (!interaction.isChatInputCommand() || !interaction.inCachedGuild()) return;
+
+    const server = await findServer(interaction.guildId);
+    if (!server) {
+        return interaction.reply(errorEmbed('This server is not registered yet, please try again in a few minutes.'));
+    }
+
+    const repository = (await getPostgres).getRepository(Keyword);
+    const channel = interaction.options.getChannel('channel', true);
+
+    switch (interaction.options.getSubcommand()) {
+        case 'add': {
+            const keyword = repository.create({
+                kind: (interaction.options.getString('kind') ?? 'startswith') as Keyword['kind'],
+                text: interaction.options.getString('text', true),
+                caseInsensitive: interaction.options.getBoolean('case_insensitive') ?? false,
+                channelId: channel.id,
+                serverId: server.id.toString()
+            });
+
+            const errors = await validate(keyword);
+            if (errors.length) {
+                return interaction.reply(errorEmbed(Object.values(errors[0].constraints ?? {})[0] ?? 'Invalid keyword.'));
+            }
+
+            await repository.save(keyword);
+            return interaction.reply(successEmbed(`Every message in ${channel} can now ${describeKeyword(keyword)}.`));
+        }
+        case 'remove': {
+            const keyword = await repository.findOne({
+                where: {
+                    id: Number.parseInt(interaction.options.getString('keyword', true)) || 0,
+                    channelId: channel.id,
+                    serverId: server.id.toString()
+                }
+            });
+            if (!keyword) {
+                return interaction.reply(errorEmbed(`This keyword rule does not exist in ${channel}.`));
+            }
+
+            await repository.remove(keyword);
+            return interaction.reply(successEmbed(`The rule "${describeKeyword(keyword)}" has been removed from ${channel}.`));
+        }
+        case 'list': {
+            const keywords = await repository.find({
+                where: {
+                    channelId: channel.id,
+                    serverId: server.id.toString()
+                },
+                order: {
+                    id: 'ASC'
+                }
+            });
+            if (!keywords.length) {
+                return interaction.reply(errorEmbed(`There is no keyword rule in ${channel}.`));
+            }
+
+            const embeds = generateEmbeds({
+                entries: keywords,
+                generateEmbed: (idx) => new EmbedBuilder()
+                    .setTitle(idx === 0 ? `Keyword rules of #${channel.name}` : null)
+                    .setColor(process.env.EMBED_COLOR),
+                generateEntry: (keyword: Keyword) => `- ${describeKeyword(keyword)}\n`
+            });
+            return replyWithEmbeds(interaction, embeds);
+        }
+        case 'clear': {
+            const keywords = await repository.find({
+                where: {
+                    channelId: channel.id,
+                    serverId: server.id.toString()
+                }
+            });
+            await repository.remove(keywords);
+            return interaction.reply(successEmbed(`${keywords.length} keyword rule(s) have been removed from ${channel}.`));
+        }
+        case 'edits': {
+            const settingsRepository = (await getPostgres).getRepository(ChannelSettings);
+            const settings = await settingsRepository.findOne({ where: { serverId: server.id.toString(), channelId: channel.id } })
+                ?? settingsRepository.create({ channelId: channel.id, serverId: server.id.toString() });
+            settings.editAction = interaction.options.getString('action', true) as ChannelSettings['editAction'];
+            await settingsRepository.save(settings);
+
+            const label = editActions.find(action => action.value === settings.editAction)?.label;
+            return interaction.reply(successEmbed(`Edits in ${channel} breaking the rules: ${label?.toLowerCase()}.`));
+        }
+    }
+
+}
+
+export const autocomplete: SlashCommandAutocompleteFunction = async (interaction) => {
+
+    if (!interaction.inCachedGuild()) return;
+
+    const server = await findServer(interaction.guildId);
+    if (!server) return interaction.respond([]);
+
+    // the channel option is sent as a raw id while the user is still typing
+    const channelId = interaction.options.get('channel')?.value as string | undefined;
+    const keywords = await (await getPostgres).getRepository(Keyword).find({
+        where: {
+            serverId: server.id.toString(),
+            ...(channelId ? { channelId } : {})
+        },
+        order: {
+            id: 'ASC'
+        }
+    });
+
+    const focused = interaction.options.getFocused().toLowerCase();
+    return interaction.respond(
+        keywords
+            .filter(keyword => keyword.text.toLowerCase().includes(focused))
+            .slice(0, 25)
+            .map(keyword => ({
+                name: describeKeyword(keyword).slice(0, 100),
+                value: keyword.id.toString()
+            }))
+    );
+
+}
@@ -0,0 +1,140 @@
+import { ApplicationCommandOptionType, type ChatInputApplicationCommandData, ChannelType, PermissionFlagsBits } from "discord.js";
+import { validate } from "class-validator";
+import type { SlashCommandRunFunction } from "../handlers/commands.js";
+import { findServer, getPostgres, MediaRule } from "../database.js";
+import { describeMediaRequirements, parseExtensions } from "../restrictions/media.js";
+import { errorEmbed, replyEmbed, successEmbed } from "../util.js";
+
+const channelOption = {
+    type: ApplicationCommandOptionType.Channel,
+    name: 'channel',
+    description: 'The channel the rules apply to',
+    channelTypes: [ChannelType.GuildText, ChannelType.GuildAnnouncement],
+    required: true
+} as const;
+
+export const commands: ChatInputApplicationCommandData[] = [
+    {
+        name: 'media',
+        description: 'Manage the attachment rules of a channel',
+        defaultMemberPermissions: PermissionFlagsBits.ManageChannels,
+        dmPermission: false,
+        options: [
+            {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: 'set',
+                description: 'Set the attachment rules of a channel (omitted options are left unchanged)',
+                options: [
+                    channelOption,
+                    {
+                        type: ApplicationCommandOptionType.Boolean,
+                        name: 'require_media',
+                        description: 'Every message must contain at least one image or video'
+                    },
+                    {
+                        type: ApplicationCommandOptionType.Boolean,
+                        name: 'forbid_attachments',
+                        description: 'Messages can not contain any attachment'
+                    },
+                    {
+                        type: ApplicationCommandOptionType.Integer,
+                        name: 'max_attachments',
+                        description: 'Maximum number of attachments per message, -1 for no limit',
+                        minValue: -1
+                    },
+                    {
+                        type: ApplicationCommandOptionType.Integer,
+                        name: 'max_size_kb',
+                        description: 'Maximum size of each attachment in kilobytes, 0 for no limit',
+                        minValue: 0
+                    },
+                    {
+                        type: ApplicationCommandOptionType.String,
+                        name: 'extensions',
+                        description: 'Comma separated list of the allowed extensions (e.g. png, jpg), "*" to allow every file'
+                    }
+                ]
+            },
+            {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: 'show',
+                description: 'Show the attachment rules of a channel',
+                options: [channelOption]
+            },
+            {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: 'clear',
+                description: 'Remove the attachment rules of a channel',
+                options: [channelOption]
+            }
+        ]
+    }
+];
+
+export const run: SlashCommandRunFunction = async (interaction) => {
+
+    if (!interaction.isChatInputCommand() || !interaction.inCachedGuild()) return;
+
+    const server = await findServer(interaction.guildId);
+    if (!server) {
+        return interaction.reply(errorEmbed('This server is not registered yet, please try again in a few minutes.'));
+    }
+
+    const repository = (await getPostgres).getRepository(MediaRule);
+    const channel = interaction.options.getChannel('channel', true);
+    const rule = await repository.findOne({ where: { serverId: server.id.toString(), channelId: channel.id } });
+
+    switch (interaction.options.getSubcommand()) {
+        case 'set': {
+            const newRule = rule ?? repository.create({
+                channelId: channel.id,
+                serverId: server.id.toString(),
+                requireMedia: false,
+                forbidAttachments: false,
+                maxAttachments: null,
+                maxAttachmentSizeKb: null,
+                allowedExtensions: null
+            });
+
+            const requireMedia = interaction.options.getBoolean('require_media');
+            if (requireMedia !== null) newRule.requireMedia = requireMedia;
+            const forbidAttachments = interaction.options.getBoolean('forbid_attachments');
+            if (forbidAttachments !== null) newRule.forbidAttachments = forbidAttachments;
+            const maxAttachments = interaction.options.getInteger('max_attachments');
+            if (maxAttachments !== null) newRule.maxAttachments = maxAttachments === -1 ? null : maxAttachments;
+            const maxSize = interaction.options.getInteger('max_size_kb');
+            if (maxSize !== null) newRule.maxAttachmentSizeKb = maxSize === 0 ? null : maxSize;
+            const extensions = interaction.options.getString('extensions');
+            if (extensions !== null) newRule.allowedExtensions = extensions === '*' ? null : parseExtensions(extensions).join(', ') || null;
+
+            if (newRule.requireMedia && newRule.forbidAttachments) {
+                return interaction.reply(errorEmbed('Media can not be both required and forbidden.'));
+            }
+            const errors = await validate(newRule);
+            if (errors.length) {
+                return interaction.reply(errorEmbed(Object.values(errors[0].constraints ?? {})[0] ?? 'Invalid rule.'));
+            }
+
+            await repository.save(newRule);
+            const requirements = describeMediaRequirements(newRule);
+            return interaction.reply(successEmbed(requirements.length
+                ? `Every message in ${channel} must now:\n${requirements.map(r => `- ${r}`).join('\n')}`
+                : `There is no attachment rule in ${channel} anymore.`));
+        }
+        case 'show': {
+            const requirements = rule ? describeMediaRequirements(rule) : [];
+            if (!requirements.length) {
+                return interaction.reply(errorEmbed(`There is no attachment rule in ${channel}.`));
+            }
+            return interaction.reply(replyEmbed(`Every message in ${channel} must:\n${requirements.map(r => `- ${r}`).join('\n')}`));
+        }
+        case 'clear': {
+            if (!rule) {
+                return interaction.reply(errorEmbed(`There is no attachment rule in ${channel}.`));
+            }
+            await repository.remove(rule);
+            return interaction.reply(successEmbed(`The attachment rules of ${channel} have been removed.`));
+        }
+    }
+
+}
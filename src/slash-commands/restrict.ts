@@ -0,0 +1,131 @@
+import { ApplicationCommandOptionType, type ChatInputApplicationCommandData, ChannelType, MessageFlags, PermissionFlagsBits } from "discord.js";
+import type { SlashCommandRunFunction } from "../handlers/commands.js";
+import { ChannelSettings, findServer, getPostgres, Server } from "../database.js";
+import { getRestrictionConfig } from "../restrictions/cache.js";
+import { buildEvaluationEmbed, evaluateMessage } from "../restrictions/messages.js";
+import { errorEmbed, successEmbed } from "../util.js";
+
+export const commands: ChatInputApplicationCommandData[] = [
+    {
+        name: 'restrict',
+        description: 'Manage how the restriction rules are applied',
+        defaultMemberPermissions: PermissionFlagsBits.ManageChannels,
+        dmPermission: false,
+        options: [
+            {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: 'audit',
+                description: 'Only report the messages and reactions breaking the rules, without removing them',
+                options: [
+                    {
+                        type: ApplicationCommandOptionType.String,
+                        name: 'mode',
+                        description: 'Audit: only report in the log channel. Enforce: remove, DM and give strikes',
+                        required: true,
+                        choices: [
+                            { name: 'Audit', value: 'audit' },
+                            { name: 'Enforce', value: 'enforce' },
+                            { name: 'Inherit (use the mode of the server)', value: 'inherit' }
+                        ]
+                    },
+                    {
+                        type: ApplicationCommandOptionType.Channel,
+                        name: 'channel',
+                        description: 'Apply to this channel only instead of the whole server',
+                        channelTypes: [ChannelType.GuildText, ChannelType.GuildAnnouncement]
+                    }
+                ]
+            },
+            {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: 'test',
+                description: 'Check a sample message against the rules of a channel, without sending it',
+                options: [
+                    {
+                        type: ApplicationCommandOptionType.Channel,
+                        name: 'channel',
+                        description: 'The channel whose rules are checked',
+                        channelTypes: [ChannelType.GuildText, ChannelType.GuildAnnouncement],
+                        required: true
+                    },
+                    {
+                        type: ApplicationCommandOptionType.String,
+                        name: 'text',
+                        description: 'The content of the sample message',
+                        required: true
+                    },
+                    {
+                        type: ApplicationCommandOptionType.User,
+                        name: 'author',
+                        description: 'The member sending the message, you by default'
+                    },
+                    {
+                        type: ApplicationCommandOptionType.Attachment,
+                        name: 'attachment',
+                        description: 'An attachment of the sample message'
+                    }
+                ]
+            }
+        ]
+    }
+];
+
+export const run: SlashCommandRunFunction = async (interaction) => {
+
+    if (!interaction.isChatInputCommand() || !interaction.inCachedGuild()) return;
+
+    const server = await findServer(interaction.guildId);
+    if (!server) {
+        return interaction.reply(errorEmbed('This server is not registered yet, please try again in a few minutes.'));
+    }
+
+    const postgres = await getPostgres;
+
+    switch (interaction.options.getSubcommand()) {
+        case 'audit': {
+            const mode = interaction.options.getString('mode', true);
+            const channel = interaction.options.getChannel('channel');
+            const warning = mode === 'audit' && !server.logChannelId ? '\n⚠️ There is no log channel, set one in the dashboard to see the reports.' : '';
+
+            if (!channel) {
+                if (mode === 'inherit') {
+                    return interaction.reply(errorEmbed('The whole server can only be in the audit or the enforce mode.'));
+                }
+                server.auditModeEnabled = mode === 'audit';
+                await postgres.getRepository(Server).save(server);
+                return interaction.reply(successEmbed(`The rules of the server are now ${mode === 'audit' ? 'audited' : 'enforced'}, except in the channels having their own mode.${warning}`));
+            }
+
+            const settingsRepository = postgres.getRepository(ChannelSettings);
+            const settings = await settingsRepository.findOne({ where: { serverId: server.id.toString(), channelId: channel.id } })
+                ?? settingsRepository.create({ channelId: channel.id, serverId: server.id.toString() });
+            settings.auditMode = mode === 'inherit' ? null : mode === 'audit';
+            await settingsRepository.save(settings);
+
+            const description = mode === 'inherit' ? 'now follow the mode of the server' : `are now ${mode === 'audit' ? 'audited' : 'enforced'}`;
+            return interaction.reply(successEmbed(`The rules of ${channel} ${description}.${warning}`));
+        }
+        case 'test': {
+            const restrictionConfig = getRestrictionConfig(interaction.guildId);
+            if (!restrictionConfig) {
+                return interaction.reply(errorEmbed('The rules of this server are not loaded yet, please try again in a few minutes.'));
+            }
+
+            const channel = interaction.options.getChannel('channel', true);
+            const member = interaction.options.getMember('author') ?? interaction.member;
+            const attachment = interaction.options.getAttachment('attachment');
+            const evaluation = evaluateMessage(restrictionConfig, {
+                member,
+                channelId: channel.id,
+                content: interaction.options.getString('text', true),
+                attachments: attachment ? [attachment] : []
+            });
+
+            return interaction.reply({
+                embeds: [buildEvaluationEmbed(evaluation, channel.id).setFooter({ text: `Author: ${member.user.username}` })],
+                flags: MessageFlags.Ephemeral
+            });
+        }
+    }
+
+}
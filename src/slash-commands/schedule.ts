@@ -0,0 +1,306 @@
+import { ApplicationCommandOptionType, type ChatInputApplicationCommandData, ChannelType, EmbedBuilder, MessageFlags, PermissionFlagsBits, time } from "discord.js";
+import { IsNull } from "typeorm";
+import type { SlashCommandAutocompleteFunction, SlashCommandRunFunction } from "../handlers/commands.js";
+import { findServer, getPostgres, RecurringMessage, ScheduledMessage } from "../database.js";
+import { buildMessagePayload } from "../scheduler/embeds.js";
+import { getScheduledJobs } from "../scheduler/jobs.js";
+import { defaultTimeZone, getTimeZone, isValidTimeZone, parseDate } from "../scheduler/schedule.js";
+import { pickVariant, renderTemplate } from "../scheduler/templates.js";
+import { errorEmbed, generateEmbeds, replyWithEmbeds, successEmbed } from "../util.js";
+
+const timeZoneOption = {
+    type: ApplicationCommandOptionType.String,
+    name: 'time_zone',
+    description: `The time zone of the dates (e.g. Europe/Paris), ${defaultTimeZone} by default`,
+    autocomplete: true
+} as const;
+
+const preview = (text: string) => text.length > 50 ? `${text.slice(0, 50)}…` : text;
+
+export const commands: ChatInputApplicationCommandData[] = [
+    {
+        name: 'schedule',
+        description: 'Manage the scheduled messages of this server',
+        defaultMemberPermissions: PermissionFlagsBits.ManageGuild,
+        dmPermission: false,
+        options: [
+            {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: 'add',
+                description: 'Schedule a message to be sent once',
+                options: [
+                    {
+                        type: ApplicationCommandOptionType.Channel,
+                        name: 'channel',
+                        description: 'The channel the message is sent in',
+                        channelTypes: [ChannelType.GuildText, ChannelType.GuildAnnouncement],
+                        required: true
+                    },
+                    {
+                        type: ApplicationCommandOptionType.String,
+                        name: 'text',
+                        description: 'The content of the message',
+                        required: true
+                    },
+                    {
+                        type: ApplicationCommandOptionType.String,
+                        name: 'date',
+                        description: 'When to send the message, as YYYY-MM-DD HH:MM',
+                        required: true
+                    },
+                    timeZoneOption,
+                    {
+                        type: ApplicationCommandOptionType.Boolean,
+                        name: 'embed',
+                        description: 'Send the message as an embed'
+                    }
+                ]
+            },
+            {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: 'cancel',
+                description: 'Cancel a scheduled message that has not been sent yet',
+                options: [
+                    {
+                        type: ApplicationCommandOptionType.Integer,
+                        name: 'message',
+                        description: 'The scheduled message',
+                        required: true,
+                        autocomplete: true
+                    }
+                ]
+            },
+            {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: 'period',
+                description: 'Set when a recurring message starts and stops being sent',
+                options: [
+                    {
+                        type: ApplicationCommandOptionType.Integer,
+                        name: 'recurring_message',
+                        description: 'The recurring message',
+                        required: true,
+                        autocomplete: true
+                    },
+                    {
+                        type: ApplicationCommandOptionType.String,
+                        name: 'start',
+                        description: 'First day the message is sent, as YYYY-MM-DD HH:MM, "none" to remove it'
+                    },
+                    {
+                        type: ApplicationCommandOptionType.String,
+                        name: 'end',
+                        description: 'Date after which the message is not sent anymore, as YYYY-MM-DD HH:MM, "none" to remove it'
+                    },
+                    timeZoneOption
+                ]
+            },
+            {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: 'preview',
+                description: 'Show what a recurring message will look like, only to you',
+                options: [
+                    {
+                        type: ApplicationCommandOptionType.Integer,
+                        name: 'recurring_message',
+                        description: 'The recurring message',
+                        required: true,
+                        autocomplete: true
+                    }
+                ]
+            },
+            {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: 'list',
+                description: 'List the scheduled messages of this server with their next run'
+            }
+        ]
+    }
+];
+
+export const run: SlashCommandRunFunction = async (interaction) => {
+
+    if (!interaction.isChatInputCommand() || !interaction.inCachedGuild()) return;
+
+    const server = await findServer(interaction.guildId);
+    if (!server) {
+        return interaction.reply(errorEmbed('This server is not registered yet, please try again in a few minutes.'));
+    }
+
+    const timeZone = interaction.options.getString('time_zone') ?? defaultTimeZone;
+    if (!isValidTimeZone(timeZone)) {
+        return interaction.reply(errorEmbed(`${timeZone} is not a valid time zone, pick one from the list (e.g. Europe/Paris).`));
+    }
+
+    const postgres = await getPostgres;
+    const scheduledRepository = postgres.getRepository(ScheduledMessage);
+    const recurringRepository = postgres.getRepository(RecurringMessage);
+
+    switch (interaction.options.getSubcommand()) {
+        case 'add': {
+            const sendAt = parseDate(interaction.options.getString('date', true), timeZone);
+            if (!sendAt) {
+                return interaction.reply(errorEmbed('This is not a valid date, use the YYYY-MM-DD HH:MM format (e.g. 2025-06-01 18:30).'));
+            }
+            if (sendAt <= new Date()) {
+                return interaction.reply(errorEmbed('This date is already in the past.'));
+            }
+
+            const channel = interaction.options.getChannel('channel', true);
+            const scheduledMessage = await scheduledRepository.save(scheduledRepository.create({
+                serverId: server.id.toString(),
+                channelId: channel.id,
+                text: interaction.options.getString('text', true),
+                sendAsEmbed: interaction.options.getBoolean('embed') ?? false,
+                sendAt
+            }));
+            return interaction.reply(successEmbed(`The message #${scheduledMessage.id} will be sent in ${channel} on ${time(sendAt, 'F')} (${time(sendAt, 'R')}).`));
+        }
+        case 'cancel': {
+            const scheduledMessage = await scheduledRepository.findOne({
+                where: {
+                    id: interaction.options.getInteger('message', true),
+                    serverId: server.id.toString(),
+                    sentAt: IsNull()
+                }
+            });
+            if (!scheduledMessage) {
+                return interaction.reply(errorEmbed('This scheduled message does not exist or has already been sent.'));
+            }
+
+            await scheduledRepository.remove(scheduledMessage);
+            return interaction.reply(successEmbed(`The message scheduled on ${time(scheduledMessage.sendAt, 'F')} has been cancelled.`));
+        }
+        case 'period': {
+            const recurringMessage = await recurringRepository.findOne({
+                where: {
+                    id: interaction.options.getInteger('recurring_message', true),
+                    serverId: server.id.toString()
+                }
+            });
+            if (!recurringMessage) {
+                return interaction.reply(errorEmbed('This recurring message does not exist.'));
+            }
+
+            for (const option of ['start', 'end'] as const) {
+                const input = interaction.options.getString(option);
+                if (input === null) continue;
+                const date = input.toLowerCase() === 'none' ? null : parseDate(input, timeZone);
+                if (date === null && input.toLowerCase() !== 'none') {
+                    return interaction.reply(errorEmbed(`The ${option} date is not valid, use the YYYY-MM-DD HH:MM format (e.g. 2025-06-01 18:30).`));
+                }
+                if (option === 'start') recurringMessage.startsAt = date;
+                else recurringMessage.endsAt = date;
+            }
+            if (recurringMessage.startsAt && recurringMessage.endsAt && recurringMessage.endsAt <= recurringMessage.startsAt) {
+                return interaction.reply(errorEmbed('The end date has to be after the start date.'));
+            }
+
+            await recurringRepository.save(recurringMessage);
+            const start = recurringMessage.startsAt ? `from ${time(recurringMessage.startsAt, 'F')}` : 'from now';
+            const end = recurringMessage.endsAt ? `until ${time(recurringMessage.endsAt, 'F')}` : 'with no end date';
+            return interaction.reply(successEmbed(`The recurring message #${recurringMessage.id} is sent ${start} ${end}.`));
+        }
+        case 'preview': {
+            const recurringMessage = await recurringRepository.findOne({
+                where: {
+                    id: interaction.options.getInteger('recurring_message', true),
+                    serverId: server.id.toString()
+                },
+                relations: {
+                    tasks: true
+                }
+            });
+            if (!recurringMessage) {
+                return interaction.reply(errorEmbed('This recurring message does not exist.'));
+            }
+
+            // the placeholders are rendered like the next run would, in the time zone of the first task
+            const taskTimeZone = recurringMessage.tasks[0] ? getTimeZone(recurringMessage.tasks[0]) : defaultTimeZone;
+            const { text } = pickVariant(recurringMessage);
+            const payload = buildMessagePayload({ ...recurringMessage, text }, text => renderTemplate(text, interaction.guild, taskTimeZone));
+            return interaction.reply({
+                ...payload,
+                allowedMentions: { parse: [] },
+                flags: MessageFlags.Ephemeral
+            }).catch(() => interaction.reply({
+                ...errorEmbed('This message can not be sent, check the embed options in the dashboard.'),
+                flags: MessageFlags.Ephemeral
+            }));
+        }
+        case 'list': {
+            const scheduledMessages = await scheduledRepository.find({
+                where: {
+                    serverId: server.id.toString(),
+                    sentAt: IsNull()
+                }
+            });
+            const recurringMessages = await recurringRepository.find({
+                where: {
+                    serverId: server.id.toString()
+                }
+            });
+
+            const entries = getScheduledJobs().flatMap(job => {
+                const nextRun = job.nextRun ? `${time(job.nextRun, 'F')} (${time(job.nextRun, 'R')})` : 'no next run';
+                if (job.type === 'message') {
+                    const message = scheduledMessages.find(m => m.id === job.id);
+                    return message ? [`- ${nextRun}: **#${message.id}** once in <#${message.channelId}>: ${preview(message.text)}\n`] : [];
+                }
+                const message = recurringMessages.find(m => m.id === job.recurringMessageId);
+                if (!message || (message.endsAt && message.endsAt <= new Date())) return [];
+                const start = message.startsAt && message.startsAt > new Date() ? ` (starts ${time(message.startsAt, 'd')})` : '';
+                return [`- ${nextRun}: **Recurring #${message.id}** (task #${job.id}) in <#${message.channelId}>${start}: ${preview(message.text)}\n`];
+            });
+            if (!entries.length) {
+                return interaction.reply(errorEmbed('There is no scheduled message in this server.'));
+            }
+
+            const embeds = generateEmbeds({
+                entries,
+                generateEmbed: (idx) => new EmbedBuilder()
+                    .setTitle(idx === 0 ? 'Scheduled messages' : null)
+                    .setColor(process.env.EMBED_COLOR),
+                generateEntry: (entry: string) => entry
+            });
+            return replyWithEmbeds(interaction, embeds);
+        }
+    }
+
+}
+
+export const autocomplete: SlashCommandAutocompleteFunction = async (interaction) => {
+
+    if (!interaction.inCachedGuild()) return;
+
+    const focused = interaction.options.getFocused(true);
+    const search = focused.value.toLowerCase();
+
+    if (focused.name === 'time_zone') {
+        return interaction.respond(
+            Intl.supportedValuesOf('timeZone')
+                .filter(timeZone => timeZone.toLowerCase().includes(search))
+                .slice(0, 25)
+                .map(timeZone => ({ name: timeZone, value: timeZone }))
+        );
+    }
+
+    const server = await findServer(interaction.guildId);
+    if (!server) return interaction.respond([]);
+
+    const postgres = await getPostgres;
+    const messages = focused.name === 'message'
+        ? await postgres.getRepository(ScheduledMessage).find({ where: { serverId: server.id.toString(), sentAt: IsNull() }, order: { sendAt: 'ASC' } })
+        : await postgres.getRepository(RecurringMessage).find({ where: { serverId: server.id.toString() }, order: { id: 'ASC' } });
+
+    return interaction.respond(
+        messages
+            .filter(message => `${message.id} ${message.text}`.toLowerCase().includes(search))
+            .slice(0, 25)
+            .map(message => ({
+                name: `#${message.id}: ${preview(message.text)}`.slice(0, 100),
+                value: message.id
+            }))
+    );
+
+}
@@ -0,0 +1,61 @@
+import { ApplicationCommandOptionType, type ChatInputApplicationCommandData, EmbedBuilder, MessageFlags, PermissionFlagsBits } from "discord.js";
+import type { SlashCommandRunFunction } from "../handlers/commands.js";
+import { findServer } from "../database.js";
+import { isSheetSyncPending, ruleTabNames, runServerSheetSync } from "../integrations/sheets.js";
+import { errorEmbed } from "../util.js";
+
+export const commands: ChatInputApplicationCommandData[] = [
+    {
+        name: 'sheets',
+        description: 'Manage the rules synced from the Google spreadsheet of this server',
+        defaultMemberPermissions: PermissionFlagsBits.ManageGuild,
+        dmPermission: false,
+        options: [
+            {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: 'sync',
+                description: `Sync the ${ruleTabNames.join(', ')} tabs of the spreadsheet now`
+            }
+        ]
+    }
+];
+
+export const run: SlashCommandRunFunction = async (interaction) => {
+
+    if (!interaction.isChatInputCommand() || !interaction.inCachedGuild()) return;
+
+    const server = await findServer(interaction.guildId);
+    if (!server) {
+        return interaction.reply(errorEmbed('This server is not registered yet, please try again in a few minutes.'));
+    }
+
+    switch (interaction.options.getSubcommand()) {
+        case 'sync': {
+            if (!server.spreadsheetId) {
+                return interaction.reply(errorEmbed('No spreadsheet is linked to this server, set one in the dashboard first.'));
+            }
+            if (isSheetSyncPending(server)) {
+                return interaction.reply(errorEmbed('The spreadsheet is already being synced, please try again in a few seconds.'));
+            }
+
+            await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+            const result = await runServerSheetSync(interaction.client, server);
+            if (result.error) {
+                return interaction.editReply(errorEmbed(result.error));
+            }
+
+            const embed = new EmbedBuilder()
+                .setTitle('Spreadsheet synced')
+                .setColor(process.env.EMBED_COLOR)
+                .addFields(result.tabs.map(report => {
+                    const rejected = report.rejected.map(({ row, error }) => `Row ${row}: ${error}`).join('\n');
+                    const value = report.error
+                        ? `⚠️ ${report.error}`
+                        : `${report.added} added, ${report.removed} removed, ${report.rejected.length} rejected${rejected ? `\n${rejected}` : ''}`;
+                    return { name: report.tab, value: value.length > 1024 ? `${value.slice(0, 1000)}\n…` : value };
+                }));
+            return interaction.editReply({ embeds: [embed] });
+        }
+    }
+
+}
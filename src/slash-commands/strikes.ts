@@ -0,0 +1,199 @@
+import { ApplicationCommandOptionType, type ChatInputApplicationCommandData, EmbedBuilder, PermissionFlagsBits, time } from "discord.js";
+import type { SlashCommandRunFunction } from "../handlers/commands.js";
+import { findServer, getPostgres, Server, Strike, StrikeThreshold } from "../database.js";
+import { describeThreshold, getActiveStrikes, strikeActions } from "../restrictions/strikes.js";
+import { errorEmbed, generateEmbeds, replyWithEmbeds, successEmbed } from "../util.js";
+
+const userOption = {
+    type: ApplicationCommandOptionType.User,
+    name: 'user',
+    description: 'The member',
+    required: true
+} as const;
+
+export const commands: ChatInputApplicationCommandData[] = [
+    {
+        name: 'strikes',
+        description: 'Manage the strikes given to members breaking the channel rules',
+        defaultMemberPermissions: PermissionFlagsBits.ModerateMembers,
+        dmPermission: false,
+        options: [
+            {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: 'view',
+                description: 'View the active strikes of a member',
+                options: [userOption]
+            },
+            {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: 'clear',
+                description: 'Clear every strike of a member',
+                options: [userOption]
+            },
+            {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: 'expiration',
+                description: 'Set after how many hours strikes expire',
+                options: [
+                    {
+                        type: ApplicationCommandOptionType.Integer,
+                        name: 'hours',
+                        description: 'Number of hours, 0 to never expire',
+                        minValue: 0,
+                        required: true
+                    }
+                ]
+            },
+            {
+                type: ApplicationCommandOptionType.SubcommandGroup,
+                name: 'threshold',
+                description: 'Manage the escalation thresholds',
+                options: [
+                    {
+                        type: ApplicationCommandOptionType.Subcommand,
+                        name: 'set',
+                        description: 'Set the action applied when a member reaches a number of strikes',
+                        options: [
+                            {
+                                type: ApplicationCommandOptionType.Integer,
+                                name: 'strikes',
+                                description: 'Number of active strikes',
+                                minValue: 1,
+                                required: true
+                            },
+                            {
+                                type: ApplicationCommandOptionType.String,
+                                name: 'action',
+                                description: 'The action to apply',
+                                required: true,
+                                choices: strikeActions.map(action => ({ name: action.label, value: action.value }))
+                            },
+                            {
+                                type: ApplicationCommandOptionType.Integer,
+                                name: 'timeout_minutes',
+                                description: 'Duration of the timeout in minutes',
+                                minValue: 1,
+                                maxValue: 40320
+                            }
+                        ]
+                    },
+                    {
+                        type: ApplicationCommandOptionType.Subcommand,
+                        name: 'remove',
+                        description: 'Remove the threshold of a number of strikes',
+                        options: [
+                            {
+                                type: ApplicationCommandOptionType.Integer,
+                                name: 'strikes',
+                                description: 'Number of active strikes',
+                                minValue: 1,
+                                required: true
+                            }
+                        ]
+                    },
+                    {
+                        type: ApplicationCommandOptionType.Subcommand,
+                        name: 'list',
+                        description: 'List the escalation thresholds'
+                    }
+                ]
+            }
+        ]
+    }
+];
+
+export const run: SlashCommandRunFunction = async (interaction) => {
+
+    if (!interaction.isChatInputCommand() || !interaction.inCachedGuild()) return;
+
+    const server = await findServer(interaction.guildId);
+    if (!server) {
+        return interaction.reply(errorEmbed('This server is not registered yet, please try again in a few minutes.'));
+    }
+
+    const postgres = await getPostgres;
+    const thresholdRepository = postgres.getRepository(StrikeThreshold);
+
+    if (interaction.options.getSubcommandGroup() === 'threshold') {
+        switch (interaction.options.getSubcommand()) {
+            case 'set': {
+                const strikes = interaction.options.getInteger('strikes', true);
+                const action = interaction.options.getString('action', true) as StrikeThreshold['action'];
+                const timeoutMinutes = interaction.options.getInteger('timeout_minutes');
+                if (action === 'timeout' && !timeoutMinutes) {
+                    return interaction.reply(errorEmbed('A timeout duration is required for the timeout action.'));
+                }
+
+                const threshold = await thresholdRepository.findOne({ where: { serverId: server.id.toString(), strikes } })
+                    ?? thresholdRepository.create({ serverId: server.id.toString(), strikes });
+                threshold.action = action;
+                threshold.timeoutMinutes = action === 'timeout' ? timeoutMinutes : null;
+                await thresholdRepository.save(threshold);
+                return interaction.reply(successEmbed(`Threshold saved: ${describeThreshold(threshold)}.`));
+            }
+            case 'remove': {
+                const threshold = await thresholdRepository.findOne({
+                    where: { serverId: server.id.toString(), strikes: interaction.options.getInteger('strikes', true) }
+                });
+                if (!threshold) {
+                    return interaction.reply(errorEmbed('There is no threshold for this number of strikes.'));
+                }
+                await thresholdRepository.remove(threshold);
+                return interaction.reply(successEmbed('The threshold has been removed.'));
+            }
+            case 'list': {
+                const thresholds = await thresholdRepository.find({
+                    where: { serverId: server.id.toString() },
+                    order: { strikes: 'ASC' }
+                });
+                if (!thresholds.length) {
+                    return interaction.reply(errorEmbed('No threshold is configured, strikes are recorded without any escalation.'));
+                }
+                const expiration = server.strikeExpirationHours > 0 ? `Strikes expire after ${server.strikeExpirationHours} hour(s).` : 'Strikes never expire.';
+                return interaction.reply({
+                    embeds: [
+                        new EmbedBuilder()
+                            .setTitle('Strike thresholds')
+                            .setDescription(`${thresholds.map(t => `- ${describeThreshold(t)}`).join('\n')}\n\n${expiration}`)
+                            .setColor(process.env.EMBED_COLOR)
+                    ]
+                });
+            }
+        }
+        return;
+    }
+
+    switch (interaction.options.getSubcommand()) {
+        case 'view': {
+            const user = interaction.options.getUser('user', true);
+            const strikes = await getActiveStrikes(server.id, user.id);
+            if (!strikes.length) {
+                return interaction.reply(errorEmbed(`${user} has no active strike.`));
+            }
+            const embeds = generateEmbeds({
+                entries: strikes,
+                generateEmbed: (idx) => new EmbedBuilder()
+                    .setTitle(idx === 0 ? `${strikes.length} active strike(s) for ${user.username}` : null)
+                    .setColor(process.env.EMBED_COLOR),
+                generateEntry: (strike: Strike) => `- ${time(strike.createdAt, 'R')}: ${strike.reason.slice(0, 200)}\n`
+            });
+            return replyWithEmbeds(interaction, embeds);
+        }
+        case 'clear': {
+            const user = interaction.options.getUser('user', true);
+            const strikes = await postgres.getRepository(Strike).find({
+                where: { serverId: server.id.toString(), userId: user.id }
+            });
+            await postgres.getRepository(Strike).remove(strikes);
+            return interaction.reply(successEmbed(`${strikes.length} strike(s) of ${user} have been cleared.`));
+        }
+        case 'expiration': {
+            server.strikeExpirationHours = interaction.options.getInteger('hours', true);
+            await postgres.getRepository(Server).save(server);
+            return interaction.reply(successEmbed(server.strikeExpirationHours > 0
+                ? `New strikes will expire after ${server.strikeExpirationHours} hour(s).`
+                : 'New strikes will never expire.'));
+        }
+    }
+
+}
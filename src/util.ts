@@ -1,4 +1,4 @@
-import { EmbedBuilder } from "discord.js";
+import { type CommandInteraction, EmbedBuilder, type Guild, MessageFlags } from "discord.js";
 
 export const errorEmbed = (message: string) => {
     return {
@@ -52,3 +52,31 @@ export const generateEmbeds = ({ entries, generateEmbed, generateEntry }: {
     });
     return embeds;
 };
+
+/**
+ * Replies with the first embed and sends the other ones as follow-ups, so the 6000 characters limit of a message is never reached.
+ */
+export const replyWithEmbeds = async (interaction: CommandInteraction, embeds: EmbedBuilder[], ephemeral = false) => {
+    const [first, ...others] = embeds;
+    const flags = ephemeral ? MessageFlags.Ephemeral : undefined;
+    await interaction.reply({ embeds: [first], flags });
+    for (const embed of others) {
+        await interaction.followUp({ embeds: [embed], flags });
+    }
+}
+
+/**
+ * Finds a channel of the guild from its ID, its mention or its name (with or without the #).
+ */
+export const resolveChannelInput = (input: string, guild: Guild) => {
+    const value = input.trim().replace(/^<#(\d+)>$/, '$1').replace(/^#/, '');
+    return guild.channels.cache.get(value) ?? guild.channels.cache.find(channel => channel.name === value) ?? null;
+}
+
+/**
+ * Finds a role of the guild from its ID, its mention or its name (with or without the @).
+ */
+export const resolveRoleInput = (input: string, guild: Guild) => {
+    const value = input.trim().replace(/^<@&(\d+)>$/, '$1').replace(/^@/, '');
+    return guild.roles.cache.get(value) ?? guild.roles.cache.find(role => role.name === value) ?? null;
+}